@@ -0,0 +1,95 @@
+import eslint from 'eslint';
+import { CommentLine, endColumnOf, endIndexOf, leavesRoomForText, measureText } from './util';
+
+/**
+ * Returns the offset, in columns from the start of the content, at which the descriptions of the
+ * JSDoc tags in the given lines of a comment align. This is one column past the widest head of a
+ * tag that has a description. Returns undefined when no tag has a description, or when the aligned
+ * descriptions would leave too little room for text, in which case descriptions are not aligned.
+ */
+export function descriptionOffsetOf(lines: CommentLine[]) {
+  let offset: number;
+  let column = 0;
+
+  for (const line of lines) {
+    if (hasDescription(line)) {
+      offset = Math.max(offset ?? 0, headWidthOf(line) + 1);
+      column = Math.max(column, endColumnOf(line, 'prefix') +
+        measureText(line.jsdoc_separator, line.context.tab_width));
+    }
+  }
+
+  if (offset !== undefined && !leavesRoomForText(lines[0].context, column + offset)) {
+    return;
+  }
+
+  return offset;
+}
+
+/**
+ * Checks whether the description of the JSDoc tag in the line starts at the aligned offset of the
+ * comment. Returns a report with a fix that pads the whitespace after the head of the tag if it
+ * does not.
+ */
+export function align(line: CommentLine) {
+  const offset = line.context.jsdoc_description_offset;
+  if (offset === undefined || !hasDescription(line)) {
+    return;
+  }
+
+  const headWidth = headWidthOf(line);
+  const prefixColumn = endColumnOf(line, 'prefix');
+  if (measureText(line.jsdoc_space, line.context.tab_width, prefixColumn + headWidth) -
+    prefixColumn === offset) {
+    return;
+  }
+
+  const headEndIndex = endIndexOf(line, 'prefix') + line.jsdoc_head.length;
+  const range = <eslint.AST.Range>[
+    line.context.code.getIndexFromLoc({ line: line.index, column: headEndIndex }),
+    line.context.code.getIndexFromLoc({
+      line: line.index,
+      column: headEndIndex + line.jsdoc_space.length
+    })
+  ];
+
+  const text = ' '.repeat(offset - headWidth);
+
+  const report: eslint.Rule.ReportDescriptor = {
+    node: line.context.node,
+    loc: {
+      start: {
+        line: line.index,
+        column: 0
+      },
+      end: {
+        line: line.index,
+        column: line.text.length
+      }
+    },
+    messageId: 'align',
+    data: {
+      line: `${line.index}`,
+      column: `${prefixColumn + offset}`
+    },
+    fix: function (fixer) {
+      return fixer.replaceTextRange(range, text);
+    }
+  };
+
+  return report;
+}
+
+function headWidthOf(line: CommentLine) {
+  const prefixColumn = endColumnOf(line, 'prefix');
+  return measureText(line.jsdoc_head, line.context.tab_width, prefixColumn) - prefixColumn;
+}
+
+/**
+ * Returns whether the line is a param, returns, or throws tag with a description. The descriptions
+ * of other tags, such as see tags, are not aligned.
+ */
+function hasDescription(line: CommentLine) {
+  return line.jsdoc_head.length > 0 && line.markup !== '@see' &&
+    line.jsdoc_head.length + line.jsdoc_space.length < line.content.length;
+}
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A section of an .editorconfig file, which is a glob that matches file paths along with the
+ * properties that apply to the matching files.
+ */
+interface Section {
+  pattern: RegExp;
+  properties: Map<string, string>;
+}
+
+/**
+ * A parsed .editorconfig file, along with the version of the file it was parsed from.
+ */
+interface EditorConfig {
+  version: string;
+  root: boolean;
+  sections: Section[];
+}
+
+/**
+ * The .editorconfig files parsed so far, keyed by path. A file is parsed again when its
+ * modification time or size changes, so that a long running process, such as an editor integration,
+ * sees edits.
+ */
+const cache = new Map<string, EditorConfig>();
+
+/**
+ * Returns the max_line_length property of the .editorconfig files that apply to the given file, or
+ * undefined when the property is not set, is "off", or when the file is not on disk, such as text
+ * that is linted from standard input.
+ *
+ * @see https://editorconfig.org/
+ */
+export function editorConfigMaxLength(filename: string) {
+  if (!path.isAbsolute(filename)) {
+    return;
+  }
+
+  return resolveMaxLength(filename);
+}
+
+/**
+ * Walks up from the directory of the file to the root directory, or to an .editorconfig file that
+ * is marked as root, and applies the sections that match the file. Sections of closer files and
+ * later sections within a file take precedence.
+ */
+function resolveMaxLength(filename: string) {
+  const configs: [string, Section[]][] = [];
+
+  let directory = path.dirname(filename);
+  for (;;) {
+    const config = loadEditorConfig(path.join(directory, '.editorconfig'));
+    if (config) {
+      configs.unshift([directory, config.sections]);
+      if (config.root) {
+        break;
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+
+    directory = parent;
+  }
+
+  let value: string;
+  for (const [configDirectory, sections] of configs) {
+    const relativePath = path.relative(configDirectory, filename).split(path.sep).join('/');
+    for (const section of sections) {
+      if (section.properties.has('max_line_length') && section.pattern.test(relativePath)) {
+        value = section.properties.get('max_line_length');
+      }
+    }
+  }
+
+  return value && /^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : undefined;
+}
+
+/**
+ * Returns the parsed .editorconfig file at the given path, from the cache when the file has not
+ * changed since it was parsed, or undefined when there is no such file.
+ */
+function loadEditorConfig(filename: string) {
+  let version: string;
+  let text: string;
+  try {
+    const stats = fs.statSync(filename);
+    version = `${stats.mtimeMs}:${stats.size}`;
+    const cached = cache.get(filename);
+    if (cached && cached.version === version) {
+      return cached;
+    }
+
+    text = fs.readFileSync(filename, 'utf8');
+  } catch {
+    cache.delete(filename);
+    return;
+  }
+
+  const [root, sections] = parseEditorConfig(text);
+  const config: EditorConfig = { version, root, sections };
+  cache.set(filename, config);
+  return config;
+}
+
+/**
+ * Parses the text of an .editorconfig file. Returns whether the file is marked as root along with
+ * its sections. Property names and values are lowercased, as they are case insensitive. A section
+ * with a glob that cannot be compiled, such as one with unbalanced braces, never matches.
+ */
+function parseEditorConfig(text: string): [boolean, Section[]] {
+  let root = false;
+  const sections: Section[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const sectionMatch = /^\[(.*)\]$/.exec(line);
+    if (sectionMatch) {
+      let pattern: RegExp;
+      try {
+        pattern = compileGlob(sectionMatch[1]);
+      } catch {
+        pattern = /(?!)/;
+      }
+
+      sections.push({
+        pattern,
+        properties: new Map<string, string>()
+      });
+      continue;
+    }
+
+    const propertyMatch = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+    if (!propertyMatch) {
+      continue;
+    }
+
+    const name = propertyMatch[1].toLowerCase();
+    const value = propertyMatch[2].toLowerCase();
+    if (sections.length) {
+      sections[sections.length - 1].properties.set(name, value);
+    } else if (name === 'root') {
+      root = value === 'true';
+    }
+  }
+
+  return [root, sections];
+}
+
+/**
+ * Converts the glob of a section into a regular expression that is tested against the path of a
+ * file relative to the directory of the .editorconfig file. A glob without a slash matches files in
+ * any directory. Supports the "*", "**", "?", "[...]", "{a,b}" and "{1..3}" wildcards.
+ */
+function compileGlob(glob: string) {
+  const anchored = glob.includes('/') ? glob.replace(/^\//, '') : '**/' + glob;
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < anchored.length; index++) {
+    const char = anchored[index];
+
+    if (char === '*' && anchored[index + 1] === '*') {
+      if (anchored[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = anchored.indexOf(']', index + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = anchored.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        index = end;
+      }
+    } else if (char === '{') {
+      const end = anchored.indexOf('}', index + 1);
+      const rangeMatch = end === -1 ? null :
+        /^(-?\d+)\.\.(-?\d+)$/.exec(anchored.slice(index + 1, end));
+      if (rangeMatch) {
+        source += compileRange(parseInt(rangeMatch[1], 10), parseInt(rangeMatch[2], 10));
+        index = end;
+      } else if (end === -1) {
+        source += '\\{';
+      } else {
+        source += '(?:';
+        braceDepth++;
+      }
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '\\' && index + 1 < anchored.length) {
+      source += escapeRegExp(anchored[index + 1]);
+      index++;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns a pattern that matches the integers of a numeric range glob such as "{1..3}".
+ */
+function compileRange(start: number, end: number) {
+  const [low, high] = start <= end ? [start, end] : [end, start];
+  if (high - low > 1000) {
+    return '-?\\d+';
+  }
+
+  const numbers: string[] = [];
+  for (let number = low; number <= high; number++) {
+    numbers.push(`${number}`);
+  }
+
+  return `(?:${numbers.join('|')})`;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
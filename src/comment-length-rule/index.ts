@@ -1,145 +1,382 @@
-import assert from 'assert';
 import eslint from 'eslint';
 import estree from 'estree';
+import { align, descriptionOffsetOf } from './align';
 import { merge } from './merge';
+import {
+  CommentLengthOptions, compileFixmePattern, compilePatterns, maxLengthOf, mergesComment,
+  parseOptions, schema, splitsComment
+} from './options';
+import { isGeneratedFile, isLicenseRun } from './license';
+import { parsePragma } from './pragma';
+import { reflow } from './reflow';
 import { split } from './split';
-import { CommentContext, CommentLine, parseLine, sniffLineBreakStyle } from './util';
+import { alignTable, findTables } from './table';
+import { canMoveAbove, moveAbove } from './trailing';
+import {
+  canMerge, Comment, CommentContext, CommentLine, containsMarkdownTable, continuesRun, endIndexOf,
+  isAnalyzable, isJSXComment, measureText, parseLine, parseLines, sniffLineBreakStyle
+} from './util';
 
 export default <eslint.Rule.RuleModule>{
   meta: {
     type: 'layout',
     fixable: 'whitespace',
+    schema,
     messages: {
       split: 'Line {{line}} should break at column {{column}}.',
-      merge: 'Line {{line}} should be merged with previous line.'
+      merge: 'Line {{line}} should be merged with previous line.',
+      align: 'Line {{line}} description should start at column {{column}}.',
+      overflow: 'Line {{line}} is longer than {{max}} columns.',
+      table: 'Line {{line}} table columns should be aligned.',
+      balance: 'Line {{line}} should be rewrapped to balance the paragraph.'
     }
   },
   create: createCommentLengthRule
 };
 
 function createCommentLengthRule(context: eslint.Rule.RuleContext) {
+  // The patterns are compiled when the rule is created, so that an invalid pattern fails the run as
+  // a configuration error instead of being reported in every linted file.
+
+  const options = parseOptions(context);
+  const directives = compilePatterns('directives', options.directives);
+  const ignorePatterns = compilePatterns('ignorePatterns', options.ignorePatterns);
+
   return {
     Program: function(node: estree.Node) {
-      return analyzeProgram(context, node);
+      return analyzeProgram(context, node, options, directives, ignorePatterns);
     }
   };
 }
 
-function analyzeProgram(ruleContext: eslint.Rule.RuleContext, node: estree.Node) {
-  let maxLineLength = 80;
-  if (ruleContext.options && ruleContext.options.length) {
-    maxLineLength = <number>ruleContext.options[0];
-  }
-
-  assert(Number.isInteger(maxLineLength), 'Invalid option for maximum line length');
-
+function analyzeProgram(ruleContext: eslint.Rule.RuleContext, node: estree.Node,
+  options: CommentLengthOptions, directives: RegExp[], ignorePatterns: RegExp[]) {
   const code = ruleContext.getSourceCode();
-  const comments = code.getAllComments();
+  const comments = <Comment[]>code.getAllComments();
   let previousLine: CommentLine;
-  let finalLineCommentLine: CommentLine;
+  let paragraph: Paragraph;
+
+  // The rows of a table in line comments are spread over a run of comments, so the rows are
+  // collected until the row after the last row of the table is known.
+
+  let tableRows: CommentLine[] = [];
 
   const lineBreakStyle = sniffLineBreakStyle(ruleContext);
+  const fixmePattern = compileFixmePattern(options);
 
-  for (const comment of comments) {
-    const context: CommentContext = {
-      node,
-      code,
-      line_break: lineBreakStyle,
-      max_line_length: maxLineLength,
-      in_md_fence: false,
-      in_jsdoc_example: false
-    };
+  const generated = isGeneratedFile(code, comments);
+  if (generated && options.generatedFiles === 'ignore') {
+    return;
+  }
 
-    const previousToken = code.getTokenBefore(comment, { includeComments: true });
-    if (previousToken && previousToken.loc.end.line === comment.loc.start.line) {
-      continue;
-    }
+  // The state of the pragmas. A run of line comments on consecutive lines counts as one comment, so
+  // a pragma at the start of a run applies to the whole run. The same goes for license comments.
+
+  let previousComment: Comment;
+  let licensed = false;
+  let disabled = false;
+  let regionMaxLength: number;
+  let ignoreNext = false;
+  let ignored = false;
+  let commentMaxLength: number;
 
-    const nextToken = code.getTokenAfter(comment, { includeComments: true });
-    if (nextToken && comment.loc.end.line === nextToken.loc.start.line) {
+  for (const [index, comment] of comments.entries()) {
+    if (!isAnalyzable(comment)) {
       continue;
     }
 
-    if (comment.type === 'Block') {
-      previousLine = null;
+    if (!continuesRun(previousComment, comment)) {
+      ignored = ignoreNext;
+      ignoreNext = false;
+      commentMaxLength = undefined;
+      licensed = isLicenseRun(code, comments, index);
+    }
 
-      let reportedSplitLine = -1;
+    previousComment = comment;
 
-      for (let line = comment.loc.start.line; line <= comment.loc.end.line; line++) {
-        const currentLine = parseLine(context, comment, line);
+    const pragma = parsePragma(comment);
+    if (pragma) {
+      const alone = pragma.alone && !continuesRun(comment, comments[index + 1]);
+      if (pragma.kind === 'disable') {
+        disabled = true;
+      } else if (pragma.kind === 'enable') {
+        disabled = false;
+        regionMaxLength = undefined;
+      } else if (pragma.kind === 'ignore') {
+        if (alone) {
+          ignoreNext = true;
+        } else {
+          ignored = true;
+        }
+      } else if (alone) {
+        regionMaxLength = pragma.maxLength;
+      } else {
+        commentMaxLength = pragma.maxLength;
+      }
+    }
 
-        if (previousLine) {
-          const report = split(previousLine, currentLine);
-          if (report) {
-            ruleContext.report(report);
+    if (disabled || ignored || ignorePatterns.some(pattern => pattern.test(comment.value.trim()))) {
+      continue;
+    }
 
-            // TODO: I do not yet understand why, but if we continue to report additional errors on
-            // this comment things do not work so well, so, for now, exit. eslint re-evaluates
-            // anyway. The only bad part is we do not see all the errors at once, just the first
-            // error per block comment.
+    if (licensed && options.licenseComments === 'ignore') {
+      continue;
+    }
 
-            // Regarding the error, my best guess is that it is because we generate multiple fixes
-            // and some of the fixes overlap. The docs explicitly say not to do this.
+    const context: CommentContext = {
+      node,
+      code,
+      line_break: lineBreakStyle,
+      max_line_length: commentMaxLength ?? regionMaxLength ?? maxLengthOf(options, comment),
+      tab_width: options.tabWidth,
+      directives,
+      fixme_pattern: fixmePattern,
+      jsdoc_indent: options.jsdocIndent,
+      minimum_fill: options.minimumFill,
+      split_lines: splitsComment(options, comment),
+      merge_lines: mergesComment(options, comment),
+      wrapping: options.wrapping,
+      rebalance: options.wrapping === 'balanced' && splitsComment(options, comment) &&
+        mergesComment(options, comment) && options.minimumFill === 100,
+      long_tokens: options.longTokens,
+      semantic_line_breaks: options.semanticLineBreaks,
+      abbreviations: options.abbreviations,
+      report_only: (licensed && options.licenseComments === 'report') ||
+        (generated && options.generatedFiles === 'report'),
+      in_md_fence: false,
+      in_jsdoc_example: false,
+      jsx: isJSXComment(code, comment)
+    };
 
-            // See https://eslint.org/docs/developer-guide/working-with-rules
+    // A JSX comment is wrapped in braces, which are kept on the lines of the comment.
 
-            // NOTE: we also do not want to continue here, that generates the same error 10 times
+    const nextToken = code.getTokenAfter(<estree.Comment>comment, { includeComments: true });
+    if (nextToken && comment.loc.end.line === nextToken.loc.start.line && !context.jsx) {
+      continue;
+    }
 
-            reportedSplitLine = previousLine.index;
-            break;
-          }
-        }
+    const previousToken = code.getTokenBefore(<estree.Comment>comment, { includeComments: true });
+    if (previousToken && previousToken.loc.end.line === comment.loc.start.line && !context.jsx) {
+      if (comment.type !== 'Line' || options.trailingComments === 'ignore') {
+        continue;
+      }
 
-        const report = merge(previousLine, currentLine);
+      if (options.trailingComments === 'above') {
+        const trailingLine = parseLine(context, comment, comment.loc.start.line);
+        const report = splitsComment(options, comment) ? split(trailingLine) : null;
         if (report) {
-          ruleContext.report(report);
+          const fix = canMoveAbove(code, comment) ? moveAbove(trailingLine) : null;
+          report.fix = fix ? () => fix : null;
+          reportComment(ruleContext, context, report);
         }
 
-        previousLine = currentLine;
+        continue;
       }
+    }
 
-      // We have to check we did not already report the same line, even though ordinarily this
-      // should not be required. This logic was written originally because we naively reported all
-      // split errors per block. It turns out that approach has some strange issues. For now this is
-      // a quick bandaid.
+    // A block comment interrupts a run of line comments, and the lines of a block comment never
+    // continue into another comment.
 
-      if (previousLine && reportedSplitLine !== previousLine.index) {
-        const report = split(previousLine);
+    if (comment.type === 'Block' && previousLine) {
+      finishParagraph(ruleContext, paragraph,
+        splitsComment(options, previousLine.comment) ? split(previousLine) : null);
+      previousLine = null;
+      paragraph = undefined;
+    }
+
+    const lines = parseLines(context, comment);
+
+    if (options.jsdocAlignDescriptions && comment.type === 'Block') {
+      context.jsdoc_description_offset = descriptionOffsetOf(lines);
+      for (const line of lines) {
+        const report = align(line);
         if (report) {
-          ruleContext.report(report);
+          reportComment(ruleContext, context, report);
         }
       }
+    }
 
-      previousLine = null;
-    } else if (comment.type === 'Line') {
-      const currentLine = parseLine(context, comment, comment.loc.start.line);
+    if (options.alignTables && comment.type === 'Line') {
+      const lastRow = tableRows[tableRows.length - 1];
+      if (lastRow && (!containsMarkdownTable(lines[0]) || lastRow.index + 1 !== lines[0].index ||
+        lastRow.open !== lines[0].open)) {
+        reportTable(ruleContext, tableRows);
+        tableRows = [];
+      }
+
+      if (containsMarkdownTable(lines[0])) {
+        tableRows.push(lines[0]);
+      }
+    } else if (options.alignTables) {
+      for (const table of findTables(lines)) {
+        reportTable(ruleContext, table);
+      }
+    }
 
+    for (const currentLine of lines) {
       if (previousLine) {
-        const report = split(previousLine,
-          previousLine.index + 1 === currentLine.index ? currentLine : null);
-        if (report) {
-          ruleContext.report(report);
+        // Splitting also updates the preformatted state of the previous line, which affects whether
+        // the lines can merge, so this happens before checking for a new paragraph.
 
-          // similar issue to block split, i dont want to do this but right now without this the
-          // multiple fixes are wrong.
-          continue;
+        const report = split(previousLine);
+        if (report && splitsComment(options, previousLine.comment)) {
+          paragraph.reports.push(report);
         }
       }
 
+      if (!canMerge(previousLine, currentLine)) {
+        finishParagraph(ruleContext, paragraph);
+        paragraph = { lines: [], reports: [] };
+      }
+
+      paragraph.lines.push(currentLine);
+
+      // With balanced wrapping, short lines are reported along with their paragraph instead.
+
       const report = merge(previousLine, currentLine);
-      if (report) {
-        ruleContext.report(report);
+      if (report && mergesComment(options, currentLine.comment) &&
+        currentLine.context.wrapping === 'greedy') {
+        paragraph.reports.push(report);
       }
 
       previousLine = currentLine;
-      finalLineCommentLine = currentLine;
     }
+
+    if (comment.type === 'Block') {
+      finishParagraph(ruleContext, paragraph,
+        splitsComment(options, previousLine.comment) ? split(previousLine) : null);
+      previousLine = null;
+      paragraph = undefined;
+    }
+  }
+
+  if (previousLine) {
+    finishParagraph(ruleContext, paragraph,
+      splitsComment(options, previousLine.comment) ? split(previousLine) : null);
+  }
+
+  if (tableRows.length) {
+    reportTable(ruleContext, tableRows);
+  }
+}
+
+interface Paragraph {
+  lines: CommentLine[];
+  reports: eslint.Rule.ReportDescriptor[];
+}
+
+/**
+ * Reports the errors found in the lines of a paragraph, including an optional final report. Rather
+ * than fixing each error on its own, which produces overlapping fixes, the first report carries a
+ * single fix that rewraps the entire paragraph and the other reports carry no fix. When rewrapping
+ * does not change anything, the reports carry no fix at all. A split report takes the column in its
+ * message from the rewrapped paragraph.
+ */
+function finishParagraph(ruleContext: eslint.Rule.RuleContext, paragraph: Paragraph,
+  finalReport?: eslint.Rule.ReportDescriptor) {
+  if (!paragraph) {
+    return;
+  }
+
+  let reports = finalReport ? [...paragraph.reports, finalReport] : paragraph.reports;
+
+  // With balanced wrapping, a paragraph without any line that is too long is still reported when
+  // rewrapping would even out its lines.
+
+  if (!reports.length && paragraph.lines.length && paragraph.lines[0].context.rebalance) {
+    const fix = reflow(paragraph.lines);
+    if (fix) {
+      reports = [composeBalanceReport(paragraph.lines[0], fix)];
+    }
+  }
+
+  if (!reports.length) {
+    return;
+  }
+
+  // An overflow report, such as the overflow of a table row, is reported as is. The reports of a
+  // paragraph of a comment that is only reported lose their fixes.
+
+  const messageIdOf = (report: eslint.Rule.ReportDescriptor) =>
+    (<{ messageId?: string }>report).messageId;
+  const layout = reports.some(report => messageIdOf(report) !== 'overflow') ?
+    reflow(paragraph.lines) : undefined;
+  const reportOnly = paragraph.lines.some(line => line.context.report_only);
+  const fix = reportOnly ? undefined : layout;
+
+  for (const [index, report] of reports.entries()) {
+    if (messageIdOf(report) === 'split' && layout) {
+      const column = breakColumnOf(paragraph.lines, layout, parseInt(report.data.line, 10));
+      if (column !== undefined) {
+        report.data.column = `${column}`;
+      }
+    }
+
+    report.fix = index === 0 && fix ? () => fix : null;
+
+    ruleContext.report(report);
   }
+}
+
+/**
+ * Returns the column at which the line with the given index breaks once the fix rewraps the
+ * paragraph, or undefined when the rewrapped paragraph ends before that line.
+ */
+function breakColumnOf(lines: CommentLine[], fix: eslint.Rule.Fix, lineIndex: number) {
+  const first = lines[0];
+  const { line_break: lineBreak, tab_width: tabWidth } = first.context;
+  const rewrappedLines = (first.text.slice(0, endIndexOf(first, 'prefix')) + fix.text)
+    .split(lineBreak);
+  const rewrappedLine = rewrappedLines[lineIndex - first.index];
+  return rewrappedLine === undefined ? undefined : measureText(rewrappedLine.trimEnd(), tabWidth);
+}
 
-  if (finalLineCommentLine) {
-    const report = split(finalLineCommentLine);
-    if (report) {
-      ruleContext.report(report);
+/**
+ * Returns a report that the paragraph starting with the given line is not balanced.
+ */
+function composeBalanceReport(line: CommentLine, fix: eslint.Rule.Fix) {
+  const report: eslint.Rule.ReportDescriptor = {
+    node: line.context.node,
+    loc: {
+      start: {
+        line: line.index,
+        column: 0
+      },
+      end: {
+        line: line.index,
+        column: line.text.length
+      }
+    },
+    messageId: 'balance',
+    data: {
+      line: `${line.index}`
+    },
+    fix: function () {
+      return fix;
     }
+  };
+
+  return report;
+}
+
+/**
+ * Reports the table made of the given rows when its columns are not aligned.
+ */
+function reportTable(ruleContext: eslint.Rule.RuleContext, rows: CommentLine[]) {
+  const report = alignTable(rows);
+  if (report) {
+    reportComment(ruleContext, rows[0].context, report);
+  }
+}
+
+/**
+ * Reports an error in a comment, without its fix when the comment is only reported.
+ */
+function reportComment(ruleContext: eslint.Rule.RuleContext, context: CommentContext,
+  report: eslint.Rule.ReportDescriptor) {
+  if (context.report_only) {
+    report.fix = null;
   }
+
+  ruleContext.report(report);
 }
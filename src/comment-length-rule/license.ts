@@ -0,0 +1,73 @@
+import eslint from 'eslint';
+import { Comment, continuesRun } from './util';
+
+/**
+ * Matches the text of a comment that is a copyright or license banner. Such a comment is only
+ * recognized when it is a header, a comment that precedes all code in the file.
+ */
+const BANNER_PATTERN = new RegExp([
+  '\\bcopyright\\b',
+  '\\(c\\)',
+  '©',
+  'SPDX-License-Identifier',
+  '\\blicensed under\\b',
+  '\\ball rights reserved\\b'
+].join('|'), 'i');
+
+/**
+ * Returns whether the comment is a license comment. A license comment is a copyright or license
+ * banner at the top of the file, a comment that is preserved by minifiers and bundlers, which is a
+ * block comment that starts with an exclamation mark, or a comment with a license or preserve tag.
+ */
+function isLicenseComment(code: eslint.SourceCode, comment: Comment) {
+  if (comment.type === 'Block' && comment.value.startsWith('!')) {
+    return true;
+  }
+
+  if (/@(?:license|preserve)\b/.test(comment.value)) {
+    return true;
+  }
+
+  return isHeaderComment(code, comment) && BANNER_PATTERN.test(comment.value);
+}
+
+/**
+ * Returns whether the run of line comments that starts with the comment at the given index contains
+ * a license comment. For other comments, this is whether the comment is a license comment.
+ */
+export function isLicenseRun(code: eslint.SourceCode, comments: Comment[], index: number) {
+  for (let next = index; next < comments.length; next++) {
+    if (next > index && !continuesRun(comments[next - 1], comments[next])) {
+      break;
+    }
+
+    if (isLicenseComment(code, comments[next])) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Matches the text of a comment that marks a file as generated by a tool, with either a generated
+ * tag or the conventional "Code generated ... DO NOT EDIT." line.
+ */
+const GENERATED_PATTERN = /@generated\b|\bCode generated\b.*\bDO NOT EDIT\./;
+
+/**
+ * Returns whether the header comments of the file, the comments that precede all code, mark the
+ * file as generated by a tool. Comments elsewhere in the file are not considered, so that a comment
+ * that merely mentions such a marker does not exempt the file.
+ */
+export function isGeneratedFile(code: eslint.SourceCode, comments: Comment[]) {
+  return comments.some(comment => isHeaderComment(code, comment) &&
+    GENERATED_PATTERN.test(comment.value));
+}
+
+function isHeaderComment(code: eslint.SourceCode, comment: Comment) {
+  const firstToken = code.ast.tokens[0];
+  return !firstToken || comment.loc.end.line < firstToken.loc.start.line ||
+    (comment.loc.end.line === firstToken.loc.start.line &&
+      comment.loc.end.column <= firstToken.loc.start.column);
+}
@@ -0,0 +1,460 @@
+import eslint from 'eslint';
+import { editorConfigMaxLength } from './editorconfig';
+import { Comment } from './util';
+
+/**
+ * The resolved options of the comment-length rule. Every property is set, the per-kind limits fall
+ * back to the general limit when not specified.
+ */
+export interface CommentLengthOptions {
+  /**
+   * The general maximum line length. Falls back to the shared settings and the .editorconfig file
+   * of the linted file, see defaultMaxLengthOf.
+   */
+  maxLength: number;
+
+  /**
+   * The maximum line length for single line comments.
+   */
+  lineMaxLength: number;
+
+  /**
+   * The maximum line length for block comments that are not JSDoc comments.
+   */
+  blockMaxLength: number;
+
+  /**
+   * The maximum line length for JSDoc comments, which are block comments that start with two
+   * asterisks. Falls back to the block comment limit.
+   */
+  jsdocMaxLength: number;
+
+  /**
+   * The number of columns between tab stops. Tabs in a comment line advance to the next tab stop
+   * when measuring the line.
+   */
+  tabWidth: number;
+
+  /**
+   * How to handle a line comment that follows code on the same line. When ignore, such comments are
+   * not checked. When wrap, the overflow of the comment is moved onto line comments aligned below
+   * it. When above, an overflowing comment is moved onto its own line above the code.
+   */
+  trailingComments: 'ignore' | 'wrap' | 'above';
+
+  /**
+   * Additional patterns that identify directives. A line whose content matches one of the patterns
+   * is never split or merged. A pattern written as a regular expression literal, such as
+   * "/^foo:/i", is a regular expression, and any other pattern is a prefix.
+   */
+  directives: string[];
+
+  /**
+   * The tags that start FIXME text, such as TODO. A tag is recognized at the start of a line when
+   * it is followed by a colon, by parenthesized text such as a name or an issue number, or by
+   * whitespace as in "XXX text". Lines split from such a line are indented to hang under the text
+   * after the tag.
+   */
+  fixmeTags: string[];
+
+  /**
+   * Whether the FIXME tags are matched case sensitively. A tag that is only followed by whitespace
+   * is always matched case sensitively, because a lowercase tag such as "note" is usually just a
+   * word.
+   */
+  fixmeCaseSensitive: boolean;
+
+  /**
+   * The number of columns by which lines that continue the description of a JSDoc param, returns,
+   * throws, or see tag are indented relative to the tag.
+   */
+  jsdocIndent: number;
+
+  /**
+   * Whether the descriptions of the JSDoc param, returns, and throws tags of a comment should start
+   * at the same column. When set, lines that continue a description hang under the description.
+   */
+  jsdocAlignDescriptions: boolean;
+
+  /**
+   * Whether to report markdown tables whose columns are not aligned, with a fix that pads the cells
+   * so that the pipes of the rows line up.
+   */
+  alignTables: boolean;
+
+  /**
+   * How to handle license comments, which are copyright and license banners at the top of a file,
+   * comments that start with an exclamation mark, and comments with a license or preserve tag. When
+   * ignore, such comments are not checked. When report, errors are reported without a fix. When
+   * fix, the default, such comments are checked like any other comment.
+   */
+  licenseComments: 'ignore' | 'report' | 'fix';
+
+  /**
+   * How to handle the comments of a file that is marked as generated by a header comment with
+   * either a generated tag or the line "Code generated ... DO NOT EDIT.". The values and the
+   * default are the same as for license comments.
+   */
+  generatedFiles: 'ignore' | 'report' | 'fix';
+
+  /**
+   * Patterns that exempt a comment from the rule when they match the text of the comment, which is
+   * the text between the characters that open and close the comment without its leading and
+   * trailing whitespace. Patterns are written the same way as directives.
+   */
+  ignorePatterns: string[];
+
+  /**
+   * Whether to report lines that are too long and should be split. When false, this overrides the
+   * mode of every kind of comment.
+   */
+  split: boolean;
+
+  /**
+   * Whether to report lines that are too short and should be merged into the previous line. When
+   * false, this overrides the mode of every kind of comment.
+   */
+  merge: boolean;
+
+  /**
+   * Which errors to report. When split, only lines that are too long are reported. When merge, only
+   * lines that are too short are reported. When both, both kinds of lines are reported.
+   */
+  mode: Mode;
+
+  /**
+   * The mode for single line comments.
+   */
+  lineMode: Mode;
+
+  /**
+   * The mode for block comments that are not JSDoc comments.
+   */
+  blockMode: Mode;
+
+  /**
+   * The mode for JSDoc comments. Falls back to the block comment mode.
+   */
+  jsdocMode: Mode;
+
+  /**
+   * A merge is only reported when the previous line is shorter than this percentage of the maximum
+   * line length. For example, when 50, a line is only merged into a previous line that fills less
+   * than half of the maximum line length.
+   */
+  minimumFill: number;
+
+  /**
+   * How the text of a paragraph is wrapped. When greedy, each line is filled as much as possible.
+   * When balanced, the lines of a paragraph are wrapped so that their lengths are as even as
+   * possible, and a paragraph that is not balanced is reported even when no line is too long or too
+   * short.
+   */
+  wrapping: 'greedy' | 'balanced';
+
+  /**
+   * Whether to use semantic line breaks, where each sentence starts on a new line. A line that
+   * contains the end of a sentence followed by more text is split after the sentence, lines are
+   * never merged across the end of a sentence, and a sentence that does not fit on a line is first
+   * broken after a semicolon or colon.
+   */
+  semanticLineBreaks: boolean;
+
+  /**
+   * The words that end with a period without ending a sentence, such as "e.g.".
+   */
+  abbreviations: string[];
+
+  /**
+   * How to handle a token that does not fit on a line by itself, such as a long identifier or file
+   * path. When allow, the line is allowed to overflow and is not reported. When report, the line is
+   * reported without a fix. When smart-break, the token is broken at a natural boundary, such as
+   * after a slash or before the hump of a camelCase word, or reported without a fix when there is
+   * no such boundary. When hard-break, the token is broken at the maximum line length.
+   */
+  longTokens: 'allow' | 'report' | 'smart-break' | 'hard-break';
+}
+
+type Mode = 'both' | 'split' | 'merge';
+
+const DEFAULT_MAX_LENGTH = 80;
+
+const DEFAULT_TAB_WIDTH = 4;
+
+const DEFAULT_JSDOC_INDENT = 2;
+
+const DEFAULT_ABBREVIATIONS = ['e.g.', 'i.e.', 'etc.', 'vs.', 'cf.', 'al.', 'Mr.', 'Mrs.', 'Ms.',
+  'Dr.'];
+
+const DEFAULT_FIXME_TAGS = ['FIXME', 'TODO', 'NOTE', 'BUG', 'WARN', 'WARNING', 'HACK', 'XXX'];
+
+/**
+ * The JSON schema of the rule options. The options are either a single integer representing the
+ * maximum line length, or an object.
+ */
+export const schema: eslint.Rule.RuleMetaData['schema'] = [
+  {
+    oneOf: [
+      {
+        type: 'integer',
+        minimum: 1
+      },
+      {
+        type: 'object',
+        properties: {
+          maxLength: {
+            type: 'integer',
+            minimum: 1
+          },
+          lineMaxLength: {
+            type: 'integer',
+            minimum: 1
+          },
+          blockMaxLength: {
+            type: 'integer',
+            minimum: 1
+          },
+          jsdocMaxLength: {
+            type: 'integer',
+            minimum: 1
+          },
+          tabWidth: {
+            type: 'integer',
+            minimum: 1
+          },
+          trailingComments: {
+            enum: ['ignore', 'wrap', 'above']
+          },
+          directives: {
+            type: 'array',
+            items: {
+              type: 'string',
+              minLength: 1
+            },
+            uniqueItems: true
+          },
+          fixmeTags: {
+            type: 'array',
+            items: {
+              type: 'string',
+              minLength: 1
+            },
+            uniqueItems: true
+          },
+          fixmeCaseSensitive: {
+            type: 'boolean'
+          },
+          jsdocIndent: {
+            type: 'integer',
+            minimum: 0
+          },
+          jsdocAlignDescriptions: {
+            type: 'boolean'
+          },
+          alignTables: {
+            type: 'boolean'
+          },
+          licenseComments: {
+            enum: ['ignore', 'report', 'fix']
+          },
+          generatedFiles: {
+            enum: ['ignore', 'report', 'fix']
+          },
+          ignorePatterns: {
+            type: 'array',
+            items: {
+              type: 'string',
+              minLength: 1
+            },
+            uniqueItems: true
+          },
+          split: {
+            type: 'boolean'
+          },
+          merge: {
+            type: 'boolean'
+          },
+          mode: {
+            enum: ['both', 'split', 'merge']
+          },
+          lineMode: {
+            enum: ['both', 'split', 'merge']
+          },
+          blockMode: {
+            enum: ['both', 'split', 'merge']
+          },
+          jsdocMode: {
+            enum: ['both', 'split', 'merge']
+          },
+          minimumFill: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 100
+          },
+          wrapping: {
+            enum: ['greedy', 'balanced']
+          },
+          semanticLineBreaks: {
+            type: 'boolean'
+          },
+          abbreviations: {
+            type: 'array',
+            items: {
+              type: 'string'
+            }
+          },
+          longTokens: {
+            enum: ['allow', 'report', 'smart-break', 'hard-break']
+          }
+        },
+        additionalProperties: false
+      }
+    ]
+  }
+];
+
+/**
+ * Reads the options of the rule from the rule context. The options have already been validated by
+ * ESLint against the schema by the time the rule runs, so this only fills in the defaults.
+ */
+export function parseOptions(context: eslint.Rule.RuleContext) {
+  let input: Partial<CommentLengthOptions> = {};
+  if (context.options && context.options.length) {
+    if (typeof context.options[0] === 'number') {
+      input = { maxLength: context.options[0] };
+    } else {
+      input = <Partial<CommentLengthOptions>>context.options[0];
+    }
+  }
+
+  const options = <CommentLengthOptions>{};
+  options.maxLength = input.maxLength ?? defaultMaxLengthOf(context);
+  options.lineMaxLength = input.lineMaxLength ?? options.maxLength;
+  options.blockMaxLength = input.blockMaxLength ?? options.maxLength;
+  options.jsdocMaxLength = input.jsdocMaxLength ?? options.blockMaxLength;
+  options.tabWidth = input.tabWidth ?? DEFAULT_TAB_WIDTH;
+  options.trailingComments = input.trailingComments ?? 'ignore';
+  options.directives = input.directives ?? [];
+  options.fixmeTags = input.fixmeTags ?? DEFAULT_FIXME_TAGS;
+  options.fixmeCaseSensitive = input.fixmeCaseSensitive ?? true;
+  options.jsdocIndent = input.jsdocIndent ?? DEFAULT_JSDOC_INDENT;
+  options.jsdocAlignDescriptions = input.jsdocAlignDescriptions ?? false;
+  options.alignTables = input.alignTables ?? false;
+  options.licenseComments = input.licenseComments ?? 'fix';
+  options.generatedFiles = input.generatedFiles ?? 'fix';
+  options.ignorePatterns = input.ignorePatterns ?? [];
+  options.split = input.split ?? true;
+  options.merge = input.merge ?? true;
+  options.mode = input.mode ?? 'both';
+  options.lineMode = input.lineMode ?? options.mode;
+  options.blockMode = input.blockMode ?? options.mode;
+  options.jsdocMode = input.jsdocMode ?? options.blockMode;
+  options.minimumFill = input.minimumFill ?? 100;
+  options.wrapping = input.wrapping ?? 'greedy';
+  options.semanticLineBreaks = input.semanticLineBreaks ?? false;
+  options.abbreviations = input.abbreviations ?? DEFAULT_ABBREVIATIONS;
+  options.longTokens = input.longTokens ?? 'hard-break';
+  return options;
+}
+
+/**
+ * Returns the maximum line length to use when the options do not specify one. This is the maxLength
+ * of the shared comment-reflow settings, then the max_line_length of the .editorconfig files that
+ * apply to the linted file, and otherwise 80.
+ */
+export function defaultMaxLengthOf(context: eslint.Rule.RuleContext) {
+  const settings = <{ maxLength?: number }>(context.settings && context.settings['comment-reflow']);
+  if (settings && Number.isInteger(settings.maxLength) && settings.maxLength > 0) {
+    return settings.maxLength;
+  }
+
+  return editorConfigMaxLength(context.getFilename()) ?? DEFAULT_MAX_LENGTH;
+}
+
+/**
+ * Returns the maximum line length that applies to the given comment.
+ */
+export function maxLengthOf(options: CommentLengthOptions, comment: Comment) {
+  if (comment.type === 'Line') {
+    return options.lineMaxLength;
+  }
+
+  if (comment.value.startsWith('*')) {
+    return options.jsdocMaxLength;
+  }
+
+  return options.blockMaxLength;
+}
+
+/**
+ * Returns whether lines of the given comment that are too long are reported.
+ */
+export function splitsComment(options: CommentLengthOptions, comment: Comment) {
+  return options.split && modeOf(options, comment) !== 'merge';
+}
+
+/**
+ * Returns whether lines of the given comment that are too short are reported.
+ */
+export function mergesComment(options: CommentLengthOptions, comment: Comment) {
+  return options.merge && modeOf(options, comment) !== 'split';
+}
+
+function modeOf(options: CommentLengthOptions, comment: Comment) {
+  if (comment.type === 'Line') {
+    return options.lineMode;
+  }
+
+  if (comment.value.startsWith('*')) {
+    return options.jsdocMode;
+  }
+
+  return options.blockMode;
+}
+
+/**
+ * Converts a pattern from the options into a regular expression. A pattern written as a regular
+ * expression literal is parsed as a regular expression. Any other pattern matches text that starts
+ * with the pattern.
+ */
+function compilePattern(pattern: string) {
+  const matches = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (matches) {
+    // The global and sticky flags would make matching stateful, so they are dropped.
+    return new RegExp(matches[1], matches[2].replace(/[gy]/g, ''));
+  }
+
+  return new RegExp('^' + escapeRegExp(pattern));
+}
+
+/**
+ * Compiles the patterns of the given option, see compilePattern. Throws an error that names the
+ * option and the pattern when a regular expression literal is not a valid regular expression.
+ */
+export function compilePatterns(option: string, patterns: string[]) {
+  return patterns.map(pattern => {
+    try {
+      return compilePattern(pattern);
+    } catch (error) {
+      throw new Error(`The ${option} pattern "${pattern}" is not a valid regular expression: ` +
+        (<Error>error).message);
+    }
+  });
+}
+
+/**
+ * Creates the pattern that matches a FIXME tag at the start of the content of a line. The tag is
+ * followed by a colon, by parenthesized text and an optional colon, or by nothing at all, and then
+ * by whitespace or the end of the content. A tag that is followed by nothing is matched case
+ * sensitively.
+ */
+export function compileFixmePattern(options: CommentLengthOptions) {
+  const tags = options.fixmeTags.map(escapeRegExp).join('|');
+  const taggedTags = options.fixmeCaseSensitive ? tags :
+    tags.replace(/[a-z]/gi, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`);
+  return new RegExp(`^((?:${taggedTags})(?:\\([^)]*\\):?|:)|(?:${tags}))(\\s+|$)`);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
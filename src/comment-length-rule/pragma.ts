@@ -0,0 +1,49 @@
+import { Comment } from './util';
+
+/**
+ * An instruction to the rule that is written in a comment, such as "comment-reflow-disable".
+ */
+export interface Pragma {
+  /**
+   * The kind of pragma. A disable pragma turns off the rule for the comments that follow it, until
+   * an enable pragma. An ignore pragma turns off the rule for a single comment. A max-length pragma
+   * changes the maximum line length.
+   */
+  kind: 'disable' | 'enable' | 'ignore' | 'max-length';
+
+  /**
+   * The maximum line length of a max-length pragma.
+   */
+  maxLength?: number;
+
+  /**
+   * Whether the pragma is the only text in the comment. An ignore or max-length pragma that is
+   * alone in its comment applies to the comments that follow it, rather than to its own comment.
+   */
+  alone: boolean;
+}
+
+/**
+ * Parses the pragma at the start of the text of the comment. Returns undefined when the comment
+ * does not start with a pragma.
+ */
+export function parsePragma(comment: Comment) {
+  // Skip the asterisks of a javadoc comment and any leading blank lines.
+
+  const text = comment.value.replace(/^[\s*]+/, '');
+  const matches = /^comment-reflow(?:-(disable|enable|ignore)\b|\s+max-length=(\d+)\b)/.exec(text);
+  if (!matches) {
+    return;
+  }
+
+  const pragma = <Pragma>{};
+  if (matches[1]) {
+    pragma.kind = <Pragma['kind']>matches[1];
+  } else {
+    pragma.kind = 'max-length';
+    pragma.maxLength = parseInt(matches[2], 10);
+  }
+
+  pragma.alone = text.slice(matches[0].length).replace(/[\s*]+$/, '').length === 0;
+  return pragma;
+}
@@ -0,0 +1,436 @@
+import eslint from 'eslint';
+import { isClauseEnd, isSentenceEnd } from './sentence';
+import {
+  alignmentOf, CommentLine, containsMarkdownList, endColumnOf, endIndexOf, hangingIndentOf,
+  indexOfColumn, indexOfSmartBreak, isAtomicToken, leavesRoomForText, measureText, tokenize,
+  tokenizeContent
+} from './util';
+
+/**
+ * A run of text within a paragraph that is never broken across lines, unless it does not fit on a
+ * line by itself. A line can only be broken after a chunk.
+ */
+interface Chunk {
+  text: string;
+
+  /**
+   * The whitespace that follows the text. This is empty when the chunk ends in a hyphen or when the
+   * chunk is the last one of the paragraph.
+   */
+  space: string;
+
+  /**
+   * Whether the text is never broken, even when it does not fit on a line by itself.
+   */
+  atomic?: boolean;
+
+  /**
+   * The index of the line of the paragraph where the text of the chunk starts. A chunk that comes
+   * from a different line than the chunk before it starts a line of the paragraph as written.
+   */
+  source: number;
+}
+
+/**
+ * Rewraps the text of a paragraph, a run of lines where each line can merge with the previous line,
+ * so that every line is filled as much as possible without exceeding the maximum line length, or
+ * with balanced wrapping, so that the lines are as even as possible. With semantic line breaks,
+ * each sentence starts on a new line. When the context does not split lines, or does not merge
+ * lines, the lines are only rewrapped as far as the other operation allows, see wrapChunks. Returns
+ * a single fix that replaces the text of the entire paragraph, or undefined if rewrapping would not
+ * change the paragraph.
+ *
+ * The text before the content of the first line and the text after the content of the last line are
+ * left as is. New lines start with the text that precedes the content of the second line of the
+ * paragraph, or when the paragraph is a single line, a continuation derived from the first line.
+ */
+export function reflow(lines: CommentLine[]) {
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+  const context = first.context;
+
+  // The lines that continue the description of a JSDoc tag, a FIXME tag or a list item are indented
+  // consistently, regardless of how they were indented before.
+
+  let leadText = lines.length > 1 && !first.jsdoc_head && !first.fixme &&
+    !containsMarkdownList(first) ? lines[1].text.slice(0, endIndexOf(lines[1], 'prefix')) :
+    composeLeadText(first);
+  if (!leavesRoomForText(context, measureText(leadText, context.tab_width))) {
+    leadText = composeLeadText(first);
+  }
+
+  const [indent, chunks] = chunkParagraph(lines);
+  const firstColumn = measureText(indent, context.tab_width, endColumnOf(first, 'prefix'));
+  const leadColumn = measureText(leadText, context.tab_width);
+
+  // The last line of a block comment is followed by the close, which has to fit as well.
+
+  const closeText = last.comment.type === 'Block' && last.index === last.comment.loc.end.line ?
+    last.suffix + last.close : '';
+
+  // With semantic line breaks, each sentence, or each clause of a sentence that does not fit on a
+  // line, is wrapped on its own.
+
+  const groups = context.semantic_line_breaks && context.split_lines ?
+    groupSentences(first, chunks, firstColumn, leadColumn, closeText) : [chunks];
+
+  const wrapped: Chunk[][] = [];
+  for (const [index, group] of groups.entries()) {
+    const isLast = index === groups.length - 1;
+    wrapped.push(...wrapGroup(first, group, index === 0 ? firstColumn : leadColumn, leadColumn,
+      isLast ? closeText : ''));
+  }
+
+  // Move the final chunk to a new line if that helps the close fit. Without splitting, this is only
+  // done when the chunk moved up from the next line of the paragraph.
+
+  if (closeText) {
+    const lastLine = wrapped[wrapped.length - 1];
+    const startColumn = wrapped.length === 1 ? firstColumn : leadColumn;
+    const endColumn = measureText(renderLine(lastLine) + closeText, context.tab_width, startColumn);
+    if (endColumn > context.max_line_length && lastLine.length > 1 && (context.split_lines ||
+      lastLine[lastLine.length - 1].source !== lastLine[lastLine.length - 2].source)) {
+      wrapped.push([lastLine.pop()]);
+    }
+  }
+
+  const text = indent + wrapped.map(renderLine).join(context.line_break + leadText);
+
+  const range = <eslint.AST.Range>[
+    context.code.getIndexFromLoc({ line: first.index, column: endIndexOf(first, 'prefix') }),
+    context.code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'content') })
+  ];
+
+  if (context.code.text.slice(range[0], range[1]) === text) {
+    return;
+  }
+
+  return <eslint.Rule.Fix>{ range, text };
+}
+
+/**
+ * Returns the text that starts a new line split from the given line, up to where the content of the
+ * new line starts.
+ */
+function composeLeadText(line: CommentLine) {
+  let text = alignmentOf(line);
+
+  if (line.comment.type === 'Line') {
+    text += line.open;
+  }
+
+  // Vertically align the asterisk of a new line below the first line of a javadoc comment.
+
+  if (line.index === line.comment.loc.start.line && line.prefix.startsWith('*')) {
+    text += ' ';
+  }
+
+  // A new line split from the first line of a JSX comment hangs under the text after the open.
+
+  if (line.context.jsx && line.index === line.comment.loc.start.line &&
+    !line.prefix.startsWith('*')) {
+    text += ' '.repeat(line.open.length);
+  }
+
+  return text + line.prefix + hangingIndentOf(line);
+}
+
+/**
+ * Breaks the content of the lines of the paragraph into chunks. Returns the whitespace that
+ * precedes the content of the first line along with the chunks. Lines are joined with a single
+ * space, unless the previous line ends in a hyphenated word, in which case they are joined without
+ * a space. A hyphen that stands alone, such as a dash between words, is kept with the text before
+ * it so that it never starts a line.
+ */
+function chunkParagraph(lines: CommentLine[]): [string, Chunk[]] {
+  const tokens: string[] = [];
+  const sources: number[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    const lineTokens = tokens.length ? tokenize(line.content.trimStart()) : tokenizeContent(line);
+
+    if (tokens.length && !isHyphenJoin(tokens, lineTokens)) {
+      tokens.push(' ');
+      sources.push(index - 1);
+    }
+
+    tokens.push(...lineTokens);
+    sources.push(...lineTokens.map(() => index));
+  }
+
+  let indent = '';
+  const chunks: Chunk[] = [];
+
+  for (const [index, token] of tokens.entries()) {
+    const previous = chunks[chunks.length - 1];
+
+    if (token.trim().length === 0) {
+      if (previous) {
+        previous.space += token;
+      } else {
+        indent += token;
+      }
+    } else if (previous && !previous.space && (token === '-' || !previous.text.endsWith('-'))) {
+      // Hyphens stay with the preceding text, and a line may only break after a hyphen, never
+      // before one.
+      previous.text += token;
+    } else if (previous && token === '-' && previous.source === sources[index]) {
+      previous.text += previous.space + token;
+      previous.space = '';
+    } else {
+      chunks.push({ text: token, space: '', source: sources[index] });
+    }
+  }
+
+  if (lines[0].jsdoc_head || lines[0].fixme) {
+    chunks[0].atomic = true;
+  }
+
+  for (const chunk of chunks) {
+    chunk.atomic = chunk.atomic || isAtomicToken(chunk.text);
+  }
+
+  return [indent, chunks];
+}
+
+/**
+ * Returns whether the tokens of a line continue the hyphenated word at the end of the previous
+ * tokens, which is when the previous tokens end in a hyphen that directly follows a word.
+ */
+function isHyphenJoin(previousTokens: string[], lineTokens: string[]) {
+  const [word, hyphen] = previousTokens.slice(-2);
+  return hyphen === '-' && word !== undefined && word !== '-' && word.trim().length > 0 &&
+    lineTokens[0] !== '-';
+}
+
+/**
+ * Wraps the chunks of a group with the configured wrapping. Balanced wrapping falls back to greedy
+ * wrapping when some chunk does not fit on a line by itself, or when lines are not both split and
+ * merged without a minimum fill.
+ */
+function wrapGroup(line: CommentLine, chunks: Chunk[], firstColumn: number, leadColumn: number,
+  closeText: string) {
+  const { merge_lines: mergeLines, minimum_fill: minimumFill, split_lines: splitLines, wrapping } =
+    line.context;
+  let wrapped: Chunk[][];
+  if (wrapping === 'balanced' && splitLines && mergeLines && minimumFill === 100 && chunks.length) {
+    wrapped = balanceChunks(line, chunks, firstColumn, leadColumn, closeText);
+  }
+
+  return wrapped || wrapChunks(line, chunks, firstColumn, leadColumn);
+}
+
+/**
+ * Divides the chunks into groups that each start a new line. Each sentence is a group, and a
+ * sentence that does not fit on a line is further divided after each clause.
+ */
+function groupSentences(line: CommentLine, chunks: Chunk[], firstColumn: number,
+  leadColumn: number, closeText: string) {
+  const { abbreviations, max_line_length: maxLineLength, tab_width: tabWidth } = line.context;
+  const isBreak = (chunk: Chunk, index: number, test: (text: string) => boolean) =>
+    index < chunks.length - 1 && chunk.space.length > 0 && !chunk.atomic && test(chunk.text);
+
+  const sentences: Chunk[][] = [[]];
+  for (const [index, chunk] of chunks.entries()) {
+    sentences[sentences.length - 1].push(chunk);
+    if (isBreak(chunk, index, text => isSentenceEnd(text, abbreviations))) {
+      sentences.push([]);
+    }
+  }
+
+  const groups: Chunk[][] = [];
+  let offset = 0;
+  for (const [index, sentence] of sentences.entries()) {
+    const column = index === 0 ? firstColumn : leadColumn;
+    const text = renderLine(sentence) + (index === sentences.length - 1 ? closeText : '');
+    if (measureText(text, tabWidth, column) <= maxLineLength) {
+      groups.push(sentence);
+    } else {
+      groups.push([]);
+      for (const [sentenceIndex, chunk] of sentence.entries()) {
+        groups[groups.length - 1].push(chunk);
+        if (sentenceIndex < sentence.length - 1 &&
+          isBreak(chunk, offset + sentenceIndex, isClauseEnd)) {
+          groups.push([]);
+        }
+      }
+    }
+
+    offset += sentence.length;
+  }
+
+  return groups;
+}
+
+/**
+ * Greedily fills lines with chunks. A chunk that does not fit on a line by itself is broken
+ * according to the long tokens policy, unless the chunk is atomic.
+ *
+ * When lines are not merged, each line of the paragraph starts a new line, and otherwise, text only
+ * moves up into a line that fills less than the minimum fill of the maximum line length. When lines
+ * are not split, a line that is too long is left as is, and the only break within a line of the
+ * paragraph is where the text that moved up into the previous line ends.
+ */
+function wrapChunks(line: CommentLine, chunks: Chunk[], firstColumn: number, leadColumn: number) {
+  const {
+    max_line_length: maxLineLength,
+    merge_lines: mergeLines,
+    minimum_fill: minimumFill,
+    split_lines: splitLines,
+    tab_width: tabWidth
+  } = line.context;
+  const wrapped: Chunk[][] = [[]];
+  let column = firstColumn;
+
+  // The lines of the paragraph that had text moved up into the previous line, and the lines of the
+  // paragraph that were broken.
+
+  const mergedSources = new Set<number>();
+  const brokenSources = new Set<number>();
+  const canBreak = (source: number) => splitLines ||
+    (mergedSources.has(source) && !brokenSources.has(source));
+
+  const pending = chunks.slice();
+  let previousSource = pending.length ? pending[0].source : 0;
+  while (pending.length) {
+    const chunk = pending.shift();
+    const current = wrapped[wrapped.length - 1];
+    const startsLine = chunk.source !== previousSource;
+    previousSource = chunk.source;
+
+    if (current.length === 0) {
+      const endColumn = measureText(chunk.text, tabWidth, column);
+      const index = endColumn > maxLineLength && !chunk.atomic && splitLines ?
+        indexOfLongTokenBreak(line, chunk.text, column) : 0;
+      if (index > 0) {
+        const { space, source } = chunk;
+        current.push({ text: chunk.text.slice(0, index), space: '', source });
+        pending.unshift({ text: chunk.text.slice(index), space, source });
+        wrapped.push([]);
+        column = leadColumn;
+      } else {
+        current.push(chunk);
+        column = endColumn;
+      }
+
+      continue;
+    }
+
+    const previous = current[current.length - 1];
+    const endColumn = measureText(chunk.text, tabWidth,
+      measureText(previous.space, tabWidth, column));
+    const fits = startsLine ?
+      endColumn <= maxLineLength && mergeLines && column * 100 < maxLineLength * minimumFill :
+      endColumn <= maxLineLength || !canBreak(chunk.source);
+    if (fits) {
+      current.push(chunk);
+      column = endColumn;
+      if (startsLine) {
+        mergedSources.add(chunk.source);
+      }
+    } else {
+      if (!startsLine) {
+        brokenSources.add(chunk.source);
+      }
+
+      wrapped.push([]);
+      column = leadColumn;
+      pending.unshift(chunk);
+    }
+  }
+
+  return wrapped;
+}
+
+/**
+ * Wraps chunks so that the lines are as even as possible, in the style of Knuth and Plass. Each
+ * line costs the square of its unused columns, and a last line with a single chunk, a widow, costs
+ * as much again as a line that is entirely empty, so that a widow is only left when there is no
+ * other way to wrap the paragraph. Finds the breaks with the lowest total cost. Returns undefined
+ * when some chunk does not fit on a line by itself.
+ */
+function balanceChunks(line: CommentLine, chunks: Chunk[], firstColumn: number, leadColumn: number,
+  closeText: string) {
+  const { max_line_length: maxLineLength, tab_width: tabWidth } = line.context;
+
+  // The lowest cost of wrapping the chunks before each index, and the index where the last line of
+  // that wrapping starts. Of breaks with the same cost, the ones that fill earlier lines are kept.
+
+  const costs = new Array<number>(chunks.length + 1).fill(Infinity);
+  const starts = new Array<number>(chunks.length + 1).fill(-1);
+  costs[0] = 0;
+
+  for (let start = 0; start < chunks.length; start++) {
+    if (costs[start] === Infinity) {
+      continue;
+    }
+
+    const column = start === 0 ? firstColumn : leadColumn;
+    for (let end = start + 1; end <= chunks.length; end++) {
+      const isLast = end === chunks.length;
+      const text = renderLine(chunks.slice(start, end)) + (isLast ? closeText : '');
+      const endColumn = measureText(text, tabWidth, column);
+      if (endColumn > maxLineLength) {
+        break;
+      }
+
+      let cost = (maxLineLength - endColumn) ** 2;
+      if (isLast && start > 0 && end - start === 1) {
+        cost += (maxLineLength - column) ** 2;
+      }
+
+      if (costs[start] + cost <= costs[end]) {
+        costs[end] = costs[start] + cost;
+        starts[end] = start;
+      }
+    }
+  }
+
+  if (costs[chunks.length] === Infinity) {
+    return;
+  }
+
+  const wrapped: Chunk[][] = [];
+  for (let end = chunks.length; end > 0; end = starts[end]) {
+    wrapped.unshift(chunks.slice(starts[end], end));
+  }
+
+  return wrapped;
+}
+
+/**
+ * Returns the index at which to break a chunk that does not fit on a line by itself according to
+ * the long tokens policy, or 0 when the chunk is kept whole.
+ */
+function indexOfLongTokenBreak(line: CommentLine, text: string, column: number) {
+  const { long_tokens: longTokens, max_line_length: maxLineLength, tab_width: tabWidth } =
+    line.context;
+
+  if (longTokens === 'allow' || longTokens === 'report') {
+    return 0;
+  }
+
+  if (longTokens === 'smart-break') {
+    return Math.max(indexOfSmartBreak(text, maxLineLength, tabWidth, column), 0);
+  }
+
+  // Take at least one character so that progress is made, but never the entire text, which would
+  // leave an empty chunk behind.
+  const index = indexOfColumn(text, maxLineLength, tabWidth, column) || [...text][0]?.length;
+  return index < text.length ? index : 0;
+}
+
+/**
+ * Composes the text of the chunks of a line. The whitespace where the line breaks is dropped.
+ */
+function renderLine(chunks: Chunk[]) {
+  let text = '';
+  for (const [index, chunk] of chunks.entries()) {
+    text += chunk.text;
+    if (index < chunks.length - 1) {
+      text += chunk.space;
+    }
+  }
+
+  return text;
+}
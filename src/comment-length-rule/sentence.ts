@@ -0,0 +1,32 @@
+/**
+ * Matches a word that ends with sentence-ending punctuation, optionally followed by closing quotes
+ * or brackets, such as "done." or "(really?)".
+ */
+const SENTENCE_END_PATTERN = /[.!?]+["'”’)\]]*$/;
+
+/**
+ * Matches a word that ends a clause, such as "first;" or "note:".
+ */
+const CLAUSE_END_PATTERN = /[;:]["'”’)\]]*$/;
+
+/**
+ * Returns whether the word ends a sentence. A word that is one of the abbreviations, such as
+ * "e.g.", does not end a sentence. Abbreviations are matched case insensitively, ignoring any
+ * opening quotes or brackets before the word.
+ */
+export function isSentenceEnd(word: string, abbreviations: string[]) {
+  if (!SENTENCE_END_PATTERN.test(word)) {
+    return false;
+  }
+
+  const bare = word.replace(/^["'“‘(\[]+/, '').replace(/["'”’)\]]+$/, '').toLowerCase();
+  return !abbreviations.some(abbreviation => abbreviation.toLowerCase() === bare);
+}
+
+/**
+ * Returns whether the word ends a clause, which is where a sentence that is too long for a single
+ * line is broken.
+ */
+export function isClauseEnd(word: string) {
+  return CLAUSE_END_PATTERN.test(word);
+}
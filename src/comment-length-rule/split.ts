@@ -1,78 +1,44 @@
-import assert from 'assert';
 import eslint from 'eslint';
-import { CommentLine, containsJSDocTag, containsMarkdownList, endIndexOf, isLeadWhitespaceAligned, tokenize } from './util';
-
-export function split(current: CommentLine, next?: CommentLine) {
-  if (next) {
-    assert(current.index + 1 === next.index,
-      `Line ${current.index} does not immediately precede line ${next.index}`);
-  }
+import { isClauseEnd, isSentenceEnd } from './sentence';
+import {
+  CommentLine, containsMarkdownTable, endColumnOf, endIndexOf, indexOfSmartBreak, isAtomicToken,
+  measureText, tokenizeContent
+} from './util';
 
+/**
+ * Returns a report when the line is too long, or with semantic line breaks, when the line continues
+ * past the end of a sentence. The report carries no fix, because the paragraph of the line is
+ * rewrapped as a whole, and the column in its message is the maximum line length until the
+ * rewrapped paragraph tells where the line breaks, see finishParagraph.
+ */
+export function split(current: CommentLine) {
   if (!updatePreformattedState(current)) {
     return;
   }
 
-  const threshold = current.context.max_line_length;
-
-  if (current.text.length <= threshold) {
-    return;
-  }
-
-  if (current.lead_whitespace.length >= threshold) {
-    return;
-  }
-
-  if (endIndexOf(current, 'open') >= threshold) {
-    return;
-  }
-
-  if (endIndexOf(current, 'prefix') >= threshold) {
-    return;
-  }
-
-  if (current.index < current.comment.loc.end.line &&
-    endIndexOf(current, 'content') <= threshold) {
-    return;
-  }
-
-  if (current.index === current.comment.loc.end.line && endIndexOf(current, 'close') <= threshold) {
+  if (current.directive) {
     return;
   }
 
-  // Handle a peculiar edge case of trailing whitespace. It is possible that the current line's text
-  // is visibly under the limit, but the trailing whitespace pushes the end position of the current
-  // line's text over the limit. This only applies when the whitespace is not visibly part of the
-  // content, meaning that this applies to all situations other than the final line of a block
-  // comment because that is the only situation where there is closing syntax.
+  const overflowing = isOverflowing(current);
 
-  if ((current.comment.type === 'Line' || current.index !== current.comment.loc.end.line) &&
-    endIndexOf(current, 'content') <= threshold && endIndexOf(current, 'suffix') > threshold) {
-    return;
-  }
+  // With semantic line breaks, a line is also split after the end of a sentence that is followed by
+  // more text, even when the line is not too long.
 
-  if (current.directive) {
-    return;
-  }
+  const tokens = tokenizeContent(current);
+  const sentenceSplitIndex = current.context.semantic_line_breaks &&
+    !containsMarkdownTable(current) ? findSentenceSplit(current, tokens, overflowing) : -1;
 
-  if (current.comment.type === 'Block' && current.prefix.startsWith('*') &&
-    current.markup.startsWith('@see')) {
+  if (!overflowing && sentenceSplitIndex === -1) {
     return;
   }
 
-  const tokens = tokenize(current.content);
-  const tokenSplitIndex = findTokenSplit(current, tokens);
-  const contentBreakpoint = findContentBreak(current, tokens, tokenSplitIndex);
-  const lineBreakpoint = findLineBreak(current, tokenSplitIndex, contentBreakpoint);
-  const replacementText = composeReplacementText(current, contentBreakpoint, next);
-
-  // For a split, we always draw squigglies under the entire current line. Even though we might be
-  // replacing text in the next line when fixing the issue. I guess location and replacement range
-  // are not required to be equal?
+  // For a split, we always draw squigglies under the entire current line.
 
   const loc = <eslint.AST.SourceLocation>{
     start: {
       line: current.index,
-      column: 0
+      column: current.lead_code ? endIndexOf(current, 'lead_whitespace') : 0
     },
     end: {
       line: current.index,
@@ -80,7 +46,27 @@ export function split(current: CommentLine, next?: CommentLine) {
     }
   };
 
-  const range = createReplacementRange(current, lineBreakpoint, next);
+  // Splitting a row of a markdown table would break the table, so the row is reported without a
+  // fix.
+
+  if (containsMarkdownTable(current)) {
+    return composeOverflowReport(current, loc);
+  }
+
+  const tokenSplitIndex = sentenceSplitIndex === -1 ? findTokenSplit(current, tokens) :
+    sentenceSplitIndex;
+
+  // The head of a JSDoc tag and atomic text such as a URL are never hard broken, so when there is
+  // nothing after such a token to move, the line is allowed to overflow.
+
+  if (tokenSplitIndex === -1 && isUnbreakable(current, tokens)) {
+    // A long token that is kept whole is still reported, unless the policy allows the overflow.
+    if (isLongTokenKept(current, tokens[0]) && current.context.long_tokens !== 'allow') {
+      return composeOverflowReport(current, loc);
+    }
+
+    return;
+  }
 
   const report: eslint.Rule.ReportDescriptor = {
     node: current.context.node,
@@ -88,114 +74,142 @@ export function split(current: CommentLine, next?: CommentLine) {
     messageId: 'split',
     data: {
       line: `${current.index}`,
-      column: `${lineBreakpoint}`
-    },
-    fix: function (fixer) {
-      return fixer.replaceTextRange(range, replacementText);
+      column: `${current.context.max_line_length}`
+    }
+  };
+
+  return report;
+}
+
+/**
+ * Returns a report that the line is too long, without a fix.
+ */
+function composeOverflowReport(current: CommentLine, loc: eslint.AST.SourceLocation) {
+  const report: eslint.Rule.ReportDescriptor = {
+    node: current.context.node,
+    loc,
+    messageId: 'overflow',
+    data: {
+      line: `${current.index}`,
+      max: `${current.context.max_line_length}`
     }
   };
 
   return report;
 }
 
-function willSplitMerge(current: CommentLine, next?: CommentLine) {
-  if (!next) {
+/**
+ * Returns whether the line is too long and can be split.
+ */
+function isOverflowing(current: CommentLine) {
+  const threshold = current.context.max_line_length;
+
+  if (measureText(current.text, current.context.tab_width) <= threshold) {
     return false;
   }
 
-  if (!next.content) {
+  if (endColumnOf(current, 'lead_whitespace') >= threshold) {
     return false;
   }
 
-  if (next.directive) {
+  if (endColumnOf(current, 'open') >= threshold) {
     return false;
   }
 
-  if (next.fixme) {
+  if (endColumnOf(current, 'prefix') >= threshold) {
     return false;
   }
 
-  if (!isLeadWhitespaceAligned(current, next)) {
+  if (current.index < current.comment.loc.end.line &&
+    endColumnOf(current, 'content') <= threshold) {
     return false;
   }
 
-  if (containsMarkdownList(next)) {
+  if (current.index === current.comment.loc.end.line &&
+    endColumnOf(current, 'close') <= threshold) {
     return false;
   }
 
-  if (containsJSDocTag(next)) {
+  // Handle a peculiar edge case of trailing whitespace. It is possible that the current line's text
+  // is visibly under the limit, but the trailing whitespace pushes the end position of the current
+  // line's text over the limit. This only applies when the whitespace is not visibly part of the
+  // content, meaning that this applies to all situations other than the final line of a block
+  // comment because that is the only situation where there is closing syntax.
+
+  if ((current.comment.type === 'Line' || current.index !== current.comment.loc.end.line) &&
+    endColumnOf(current, 'content') <= threshold && endColumnOf(current, 'suffix') > threshold) {
     return false;
   }
 
   return true;
 }
 
-function createReplacementRange(current: CommentLine, lineBreakpoint: number, next?: CommentLine) {
-  // Special case for last line of block comment with content under limit and suffix over limit
-  if (current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
-    endIndexOf(current, 'content') <= current.context.max_line_length) {
-    const rangeStart = current.context.code.getIndexFromLoc({
-      line: current.index,
-      column: endIndexOf(current, 'content')
-    });
-
-    const rangeEnd = current.context.code.getIndexFromLoc({
-      line: next ? next.index : current.index,
-      column: endIndexOf(current, 'suffix')
-    });
-    return <eslint.AST.Range>[rangeStart, rangeEnd];
-  }
+/**
+ * Finds where to split a line with semantic line breaks. Returns the index of the token that starts
+ * the new line, which is the token after the end of the first sentence of the line. When the first
+ * sentence does not fit and the line is too long, this is the token after the last end of a clause
+ * that fits instead. Returns -1 when there is no such token.
+ */
+function findSentenceSplit(current: CommentLine, tokens: string[], overflowing: boolean) {
+  const { abbreviations, max_line_length: maxLineLength, tab_width: tabWidth } = current.context;
+  let column = endColumnOf(current, 'prefix');
+  let clauseSplitIndex = -1;
+
+  for (let i = 0; i < tokens.length - 2; i++) {
+    column = measureText(tokens[i], tabWidth, column);
+
+    if ((i === 0 && current.jsdoc_head) || isAtomicToken(tokens[i]) || tokens[i + 1].trim() ||
+      tokens[i + 2] === '-') {
+      continue;
+    }
+
+    if (isSentenceEnd(tokens[i], abbreviations)) {
+      if (column <= maxLineLength) {
+        return i + 2;
+      }
 
-  // Determime the region of text that is being replaced. Start at the place where we want to
-  // insert a new line break.
-
-  const rangeStart = current.context.code.getIndexFromLoc({
-    line: current.index,
-    column: lineBreakpoint
-  });
-
-  // Determine the end position of the text that is being replaced. If there is a next line,
-  // then the end position is just after the next line's prefix. If there is no next line,
-  // then the end position is the end of the current line. If there is a next line, we also
-  // need to inspect whether it is empty. If the next line has content, then we replace into
-  // it. If the next line has no content, it is an intentionally empty line, so we do not
-  // replace into it, and pretend it does not exist, and insert, and in this manner, we preserve
-  // the empty line and preserve author intent.
-
-  let rangeEndLine: number;
-  let rangeEndColumn: number;
-
-  if (willSplitMerge(current, next)) {
-    rangeEndLine = next.index;
-    rangeEndColumn = endIndexOf(next, 'prefix');
-  } else {
-    rangeEndLine = current.index;
-    rangeEndColumn = endIndexOf(current, 'suffix');
+      break;
+    }
+
+    if (overflowing && column <= maxLineLength && isClauseEnd(tokens[i])) {
+      clauseSplitIndex = i + 2;
+    }
   }
 
-  const rangeEnd = current.context.code.getIndexFromLoc({
-    line: rangeEndLine,
-    column: rangeEndColumn
-  });
+  return clauseSplitIndex;
+}
 
-  return <eslint.AST.Range>[rangeStart, rangeEnd];
+/**
+ * Returns whether the line is the last line of a block comment where the content fits and only the
+ * close of the comment does not.
+ */
+function isCloseOverflow(current: CommentLine) {
+  return current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
+    endColumnOf(current, 'content') <= current.context.max_line_length &&
+    endColumnOf(current, 'close') > current.context.max_line_length;
 }
 
 function findTokenSplit(current: CommentLine, tokens: string[]) {
-  const endOfPrefix = endIndexOf(current, 'prefix');
-
-  let remaining = endIndexOf(current, 'content');
+  const endOfPrefix = endColumnOf(current, 'prefix');
   let tokenSplitIndex = -1;
 
   // Edge case for trailing whitespace in last line of block comment.
 
-  if (current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
-    remaining <= current.context.max_line_length) {
+  if (isCloseOverflow(current)) {
     return - 1;
   }
 
+  // Record the visual column at which each token starts. Tokens cannot be measured in isolation
+  // because the width of a tab depends on where the tab is located in the line.
+
+  const startColumns: number[] = [];
+  let column = endOfPrefix;
+  for (const token of tokens) {
+    startColumns.push(column);
+    column = measureText(token, current.context.tab_width, column);
+  }
+
   for (let i = tokens.length - 1; i > -1; i--) {
-    const token = tokens[i];
 
     // If moving this content token to the next line would leave only the prefix remaining for the
     // current line, it means that we parsed a token that starts immediately after the prefix,
@@ -207,125 +221,77 @@ function findTokenSplit(current: CommentLine, tokens: string[]) {
     // here because we know there is no longer a point in looking at earlier tokens and that there
     // are no other tokens so we want to avoid checking other things.
 
-    if (remaining - token.length === endOfPrefix) {
+    if (startColumns[i] === endOfPrefix) {
       // we reset the index. if we ran into a big token at the start, it means we are going to
       // have to hard break the token itself, and since later code relies on this, we want to
-      // ensure we report not found.
-      tokenSplitIndex = -1;
+      // ensure we report not found. the exception is a token that is never broken, such as the
+      // head of a jsdoc tag or a url, in which case we break at the whitespace after the token
+      // when there is some.
+      tokenSplitIndex = isUnbreakable(current, tokens) && tokens.length > 1 ? 1 : -1;
       break;
     }
 
     // Handle those tokens that are positioned entirely after the threshold. Removing the tokens
     // leading up to this token along with this token are not enough to find a split. We need to
     // continue searching backward. Shift the index, since this is a token that will be moved.
-    // Update remaining, since this is a token that will be moved.
 
-    if (remaining - token.length > current.context.max_line_length) {
+    if (startColumns[i] > current.context.max_line_length) {
       tokenSplitIndex = i;
-      remaining -= token.length;
       continue;
     }
 
     // Handle a token that crosses the threshold. Since we are iterating backward, we want to stop
     // searching the first time this condition is true. This is the final token to move.
 
-    if (remaining - token.length <= current.context.max_line_length) {
+    if (startColumns[i] <= current.context.max_line_length) {
       tokenSplitIndex = i;
-      remaining -= token.length;
       break;
     }
   }
 
-  // Account for soft break preceding hyphenated word.
+  // Account for soft break preceding hyphenated word. A hyphen that stands alone, such as a dash
+  // between words, never starts a line either, so the word before it moves along with it.
 
   if (tokenSplitIndex > 0 && tokens[tokenSplitIndex] === '-' &&
-    remaining - tokens[tokenSplitIndex - 1].length > endOfPrefix) {
+    startColumns[tokenSplitIndex - 1] > endOfPrefix) {
     tokenSplitIndex--;
+    if (tokens[tokenSplitIndex].trim().length === 0 && tokenSplitIndex > 1 &&
+      startColumns[tokenSplitIndex - 1] > endOfPrefix) {
+      tokenSplitIndex--;
+    }
   }
 
   return tokenSplitIndex;
 }
 
 /**
- * Determine the splitting position in the content. If the token index points to a whitespace token,
- * move the position to after the token. The whitespace token will remain on the current line as its
- * suffix. This position is relative to the start of the content.
+ * Returns whether the first token of the content of the line is never broken.
  */
-function findContentBreak(current: CommentLine, tokens: string[], tokenSplitIndex: number) {
-  // edge case for last line of block comment
-  if (current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
-    endIndexOf(current, 'content') <= current.context.max_line_length) {
-    return -1;
-  }
-
-  let contentBreakpoint: number;
-  if (tokenSplitIndex === -1) {
-    contentBreakpoint = current.context.max_line_length - endIndexOf(current, 'prefix');
-  } else if (tokens[tokenSplitIndex].trim().length === 0) {
-    contentBreakpoint = tokens.slice(0, tokenSplitIndex + 1).join('').length;
-  } else {
-    contentBreakpoint = tokens.slice(0, tokenSplitIndex).join('').length;
-  }
-
-  return contentBreakpoint;
+function isUnbreakable(current: CommentLine, tokens: string[]) {
+  return current.jsdoc_head.length > 0 || current.fixme.length > 0 || isAtomicToken(tokens[0]) ||
+    isLongTokenKept(current, tokens[0]);
 }
 
-function findLineBreak(current: CommentLine, tokenSplitIndex: number, contentBreakpoint: number) {
-  // edge case for last line of block where content under limit but suffix over limit
-  if (current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
-    endIndexOf(current, 'content') <= current.context.max_line_length) {
-    return -1;
-  }
-
-  let lineBreakpoint: number;
-
-  // Determine where to break the line.
-
-  if (tokenSplitIndex === -1) {
-    lineBreakpoint = current.context.max_line_length;
-  } else {
-    lineBreakpoint = endIndexOf(current, 'prefix') + contentBreakpoint;
-  }
-
-  return lineBreakpoint;
-}
-
-function composeReplacementText(current: CommentLine, contentBreakpoint: number,
-  next?: CommentLine) {
-  let replacementText = current.context.line_break + current.lead_whitespace;
-
-  if (current.comment.type === 'Line') {
-    replacementText += current.open;
-  }
-
-  // Vertically align the asterisk in the new line when splitting first line of javadoc since the
-  // lead whitespace by itself is not enough, all lines for proper javadoc other than the first have
-  // an extra leading space.
-
-  if (current.index === current.comment.loc.start.line && current.prefix.startsWith('*')) {
-    replacementText += ' ';
-  }
-
-  // Special case for last line of block comment where content under limit but suffix/close over
-  // limit
+/**
+ * Returns whether the token is too long to fit on a line by itself and the long tokens policy keeps
+ * it whole, which is when the policy is allow or report, or smart-break without a natural boundary
+ * that fits.
+ */
+function isLongTokenKept(current: CommentLine, token: string) {
+  const { long_tokens: longTokens, max_line_length: maxLineLength, tab_width: tabWidth } =
+    current.context;
+  const startColumn = endColumnOf(current, 'prefix');
 
-  if (current.comment.type === 'Block' && current.index === current.comment.loc.end.line &&
-    endIndexOf(current, 'content') <= current.context.max_line_length) {
-    return replacementText;
+  if (!token || measureText(token, tabWidth, startColumn) <= maxLineLength) {
+    return false;
   }
 
-  replacementText += current.prefix;
-  replacementText += current.content.slice(contentBreakpoint);
-
-  replacementText += current.suffix;
-
-  if (willSplitMerge(current, next)) {
-    // Keep the text moved from the current line into the next line separated from the existing text
-    // of the next line.
-    replacementText += ' ';
+  if (longTokens === 'allow' || longTokens === 'report') {
+    return true;
   }
 
-  return replacementText;
+  return longTokens === 'smart-break' &&
+    indexOfSmartBreak(token, maxLineLength, tabWidth, startColumn) === -1;
 }
 
 /**
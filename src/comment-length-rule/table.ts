@@ -0,0 +1,119 @@
+import eslint from 'eslint';
+import { CommentLine, containsMarkdownTable, endIndexOf, measureText } from './util';
+
+/**
+ * Groups the rows of the markdown tables in the given lines of a comment. Each table is a run of
+ * adjacent lines that are table rows.
+ */
+export function findTables(lines: CommentLine[]) {
+  const tables: CommentLine[][] = [];
+  let previous: CommentLine;
+
+  for (const line of lines) {
+    if (containsMarkdownTable(line)) {
+      if (previous && containsMarkdownTable(previous) && previous.index + 1 === line.index) {
+        tables[tables.length - 1].push(line);
+      } else {
+        tables.push([line]);
+      }
+    }
+
+    previous = line;
+  }
+
+  return tables;
+}
+
+/**
+ * Checks whether the pipes of the rows of a table line up. Returns a report with a fix that pads
+ * the cells of every row to the width of the widest cell of its column if they do not.
+ */
+export function alignTable(rows: CommentLine[]) {
+  const context = rows[0].context;
+  const cells = rows.map(parseCells);
+  const widths: number[] = [];
+
+  // Columns are at least three columns wide, so that an aligned separator cell such as ":-:" fits.
+
+  for (const rowCells of cells) {
+    if (isSeparatorRow(rowCells)) {
+      continue;
+    }
+
+    for (const [column, cell] of rowCells.entries()) {
+      widths[column] = Math.max(widths[column] ?? 3, measureText(cell, context.tab_width));
+    }
+  }
+
+  const rendered = cells.map(rowCells => renderRow(rowCells, widths, context.tab_width));
+  const first = rows.findIndex((row, index) => row.content !== rendered[index]);
+  if (first === -1) {
+    return;
+  }
+
+  const last = rows[rows.length - 1];
+  const range = <eslint.AST.Range>[
+    context.code.getIndexFromLoc({ line: rows[0].index, column: endIndexOf(rows[0], 'prefix') }),
+    context.code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'content') })
+  ];
+
+  const text = rows.map((row, index) => {
+    const leadText = index === 0 ? '' : row.text.slice(0, endIndexOf(row, 'prefix'));
+    return leadText + rendered[index];
+  }).join(context.line_break);
+
+  const report: eslint.Rule.ReportDescriptor = {
+    node: context.node,
+    loc: {
+      start: {
+        line: rows[first].index,
+        column: 0
+      },
+      end: {
+        line: rows[first].index,
+        column: rows[first].text.length
+      }
+    },
+    messageId: 'table',
+    data: {
+      line: `${rows[first].index}`
+    },
+    fix: function (fixer) {
+      return fixer.replaceTextRange(range, text);
+    }
+  };
+
+  return report;
+}
+
+/**
+ * Splits a table row into the trimmed text of its cells. Escaped pipes do not separate cells.
+ */
+function parseCells(row: CommentLine) {
+  const inner = row.content.slice(1).replace(/(?<!\\)\|$/, '');
+  return inner.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+function isSeparatorRow(cells: string[]) {
+  return cells.every(cell => /^:?-+:?$/.test(cell));
+}
+
+/**
+ * Composes the text of a row where each cell is padded to the width of its column. The dashes of a
+ * separator row are extended to the width of the column, and its colons are kept.
+ */
+function renderRow(cells: string[], widths: number[], tabWidth: number) {
+  const separator = isSeparatorRow(cells);
+  const padded = cells.map((cell, column) => {
+    const width = widths[column] ?? measureText(cell, tabWidth);
+    if (separator) {
+      const leftColon = cell.startsWith(':') ? ':' : '';
+      const rightColon = cell.length > 1 && cell.endsWith(':') ? ':' : '';
+      return leftColon + '-'.repeat(width - leftColon.length - rightColon.length) + rightColon;
+    }
+
+    return cell + ' '.repeat(Math.max(width - measureText(cell, tabWidth), 0));
+  });
+
+  return '| ' + padded.join(' | ') + ' |';
+}
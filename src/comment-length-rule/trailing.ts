@@ -0,0 +1,45 @@
+import eslint from 'eslint';
+import estree from 'estree';
+import { Comment, CommentLine, endIndexOf } from './util';
+
+/**
+ * Returns whether a trailing comment can move above the code that it follows, which is when the
+ * first token of the line of the comment starts on that line. Otherwise the line continues a token,
+ * such as a template literal, and the moved comment would become part of its text. The same goes
+ * for JSX text, which includes the whitespace that indents the line.
+ */
+export function canMoveAbove(code: eslint.SourceCode, comment: Comment) {
+  let token = code.getTokenBefore(<estree.Comment>comment, { includeComments: true });
+  for (;;) {
+    const previous = code.getTokenBefore(token, { includeComments: true });
+    if (!previous || previous.loc.end.line < comment.loc.start.line) {
+      break;
+    }
+
+    token = previous;
+  }
+
+  const type = <string>token.type;
+  return token.loc.start.line === comment.loc.start.line && type !== 'Template' &&
+    type !== 'JSXText';
+}
+
+/**
+ * Returns a fix that moves a trailing comment onto its own line above the code that it follows. The
+ * moved comment is indented the same as the code. This does not wrap the moved comment, which is
+ * instead checked like any other comment when ESLint lints the fixed text again.
+ */
+export function moveAbove(line: CommentLine) {
+  const indentation = /^\s*/.exec(line.lead_code)[0];
+  const prefix = line.prefix || ' ';
+
+  const range = <eslint.AST.Range>[
+    line.context.code.getIndexFromLoc({ line: line.index, column: 0 }),
+    line.context.code.getIndexFromLoc({ line: line.index, column: endIndexOf(line, 'suffix') })
+  ];
+
+  const text = indentation + line.open + prefix + line.content + line.context.line_break +
+    line.lead_code;
+
+  return <eslint.Rule.Fix>{ range, text };
+}
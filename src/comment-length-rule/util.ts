@@ -2,14 +2,117 @@ import eslint from 'eslint';
 // @ts-expect-error eslint does not type this since not exposed
 import astutil from 'eslint/lib/rules/utils/ast-utils';
 import estree from 'estree';
+import { isClauseEnd, isSentenceEnd } from './sentence';
+import { graphemeWidth, segmentGraphemes } from './width';
 
 export interface CommentContext {
   node: estree.Node;
   code: eslint.SourceCode;
   line_break: string;
   max_line_length: number;
+  tab_width: number;
+
+  /**
+   * Additional patterns that identify directives, which are tested against the content of each
+   * line, see parseDirective.
+   */
+  directives: RegExp[];
+
+  /**
+   * The pattern that matches a FIXME tag at the start of the content of a line, see parseFixme. The
+   * first group is the tag text and the second group is the whitespace after it.
+   */
+  fixme_pattern: RegExp;
+
+  /**
+   * The number of columns by which lines that continue the description of a JSDoc tag are indented
+   * relative to the tag, see hangingIndentOf.
+   */
+  jsdoc_indent: number;
+
+  /**
+   * When the descriptions of the JSDoc tags of the comment are aligned, this is the number of
+   * columns from the start of the content of a tag line to the text that follows the head of the
+   * tag. This is undefined when descriptions are not aligned.
+   */
+  jsdoc_description_offset?: number;
+
+  /**
+   * A merge is only reported when the previous line is shorter than this percentage of the maximum
+   * line length.
+   */
+  minimum_fill: number;
+
+  /**
+   * Whether lines that are too long are split when a paragraph is reflowed, see reflow.
+   */
+  split_lines: boolean;
+
+  /**
+   * Whether text is moved up into the previous line when a paragraph is reflowed, see reflow.
+   */
+  merge_lines: boolean;
+
+  /**
+   * How the text of a paragraph is wrapped when it is reflowed, see reflow.
+   */
+  wrapping: 'greedy' | 'balanced';
+
+  /**
+   * Whether a paragraph whose lines are not balanced is reported. This is only set when wrapping is
+   * balanced and short lines are merged, in which case merges are not reported on their own.
+   */
+  rebalance: boolean;
+
+  /**
+   * How a token that does not fit on a line by itself is handled, see the longTokens option. When
+   * not set, such a token is broken at the maximum line length.
+   */
+  long_tokens?: 'allow' | 'report' | 'smart-break' | 'hard-break';
+
+  /**
+   * Whether each sentence starts on a new line, see isSentenceEnd.
+   */
+  semantic_line_breaks?: boolean;
+
+  /**
+   * The words that do not end a sentence even though they end with a period.
+   */
+  abbreviations?: string[];
+
+  /**
+   * Whether errors in the comment are reported without a fix, such as in a license comment.
+   */
+  report_only?: boolean;
   in_md_fence?: boolean;
   in_jsdoc_example?: boolean;
+
+  /**
+   * Whether the comment is the only content of a JSX expression container, such as "{/* text *\/}".
+   * The closing brace is a part of the close of the last line, see isJSXComment.
+   */
+  jsx?: boolean;
+}
+
+/**
+ * A comment in the source code. This is used in place of the estree comment type, which only
+ * allows for line and block comments, because ESLint and some parsers also produce other types of
+ * comments, such as a Shebang comment for the hashbang line at the start of a script.
+ *
+ * @see https://eslint.org/docs/developer-guide/working-with-custom-parsers#all-nodes
+ */
+export interface Comment {
+  /**
+   * The type of the comment, such as Line, Block, or Shebang.
+   */
+  type: string;
+
+  /**
+   * The text of the comment without the syntax that opens and closes the comment.
+   */
+  value: string;
+
+  loc: estree.SourceLocation;
 }
 
 export interface CommentLine {
@@ -20,11 +123,9 @@ export interface CommentLine {
   context: CommentContext;
 
   /**
-   * Reference to comment that contains the line.
-   *
-   * @see https://eslint.org/docs/developer-guide/working-with-custom-parsers#all-nodes
+   * Reference to comment that contains the line. This is always a line or block comment.
    */
-  comment: estree.Comment;
+  comment: Comment;
 
   /**
    * The ESLint line index, which is 1-based. This should not be confused with some kind of index
@@ -33,9 +134,17 @@ export interface CommentLine {
   index: number;
 
   /**
-   * Whitespace characters leading up to the open region. For a block comment, it is assumed that
-   * block comments that follow another kind of token on the same line are never analyzed, so this
-   * means that this is whitespace starting from the first character in the line.
+   * The source code that precedes the comment on the same line, without the whitespace between the
+   * code and the comment. This is only set on the first line of a trailing comment, a comment that
+   * follows code, such as a statement. In all other situations this is an empty string.
+   */
+  lead_code: string;
+
+  /**
+   * Whitespace characters leading up to the open region. For a trailing comment, this is the
+   * whitespace between the code and the comment, otherwise this is whitespace starting from the
+   * first character in the line. Tabs are kept as
+   * is, so this is not a measure of the visual width, see endColumnOf.
    */
   lead_whitespace: string;
 
@@ -43,8 +152,9 @@ export interface CommentLine {
    * The syntactical characters that start the comment. For block comments this is only set on the
    * first line and for all other lines is an empty string. This does not include the whitespace
    * preceding or following the characters. For javadoc-formatted block comments this does not
-   * include the second asterisk. For triple slash line comments, this does not include the third
-   * slash.
+   * include the second asterisk. For triple slash line comments, this includes the third slash,
+   * because triple slash comments are a separate kind of comment that never merges with a regular
+   * line comment.
    */
   open: string;
 
@@ -60,8 +170,8 @@ export interface CommentLine {
    * because of how ESLint parses the lines. The text may include characters that are not a part of
    * the comment because the value is derived from a value in ESLint's line array which is computed
    * separately from its comments array. The text includes the comment syntax like the forward
-   * slashes. Because it is assumed that block comments that follow another kind of token on the
-   * same line are not analyzed, the text starts from the first character on the line.
+   * slashes. The text starts from the first character on the line, so for a trailing comment it
+   * includes the code preceding the comment.
    */
   text: string;
 
@@ -70,7 +180,9 @@ export interface CommentLine {
    * line comment, this is the whitespace following the slashes and before the text. For a javadoc
    * formatted comment line in the middle of the comment, this might include a leading asterisk
    * followed by some whitespace. For the first line of a javadoc comment, this will include the
-   * second asterisk as its first character.
+   * second asterisk as its first character. In a javadoc comment, this also includes the markers of
+   * a markdown blockquote along with the whitespace that follows them, so that lines split from a
+   * blockquote keep the markers.
    */
   prefix: string;
 
@@ -92,6 +204,19 @@ export interface CommentLine {
    */
   markup_space: string;
 
+  /**
+   * Whether the line is a markdown heading. This is either a line that starts with number signs, or
+   * the text of a setext heading, which is a line that is underlined by the next line.
+   */
+  md_heading: boolean;
+
+  /**
+   * The markup at the end of the line that forces a line break in markdown. This is either the
+   * backslash that ends the content, or the two or more spaces that end the suffix. This is an
+   * empty string when the line does not end in a hard line break.
+   */
+  md_hard_break: string;
+
   /**
    * Represents a directive such tslint or globals or @ts-ignore. This does not include the trailing
    * space or the trailing text after the directive.
@@ -99,7 +224,9 @@ export interface CommentLine {
   directive: string;
 
   /**
-   * Contains the start of some FIXME text if the comment content contains some.
+   * Contains the start of some FIXME text if the comment content contains some. This is the tag
+   * along with any parenthesized text and the colon that follow it. Like markup, this overlaps with
+   * the content.
    *
    * @example
    *   // TODO(jfroelich): Add support for fixme to this project!
@@ -107,43 +234,75 @@ export interface CommentLine {
    */
   fixme: string;
 
+  /**
+   * The whitespace that follows the fixme text. Lines split from a line with fixme text are
+   * indented by the width of the fixme text and this space, so that they hang under the text after
+   * the tag.
+   */
+  fixme_space: string;
+
+  /**
+   * The head of a JSDoc tag that has a description, such as a param tag. This is the tag, followed
+   * by the type expression and the name when present. For example, the head of the content
+   * "@param {Map<string, number>} options - the options" is "@param {Map<string, number>} options".
+   * Like markup, this overlaps with the content. The head is never broken across lines.
+   */
+  jsdoc_head: string;
+
+  /**
+   * The whitespace that follows the head of a JSDoc tag.
+   */
+  jsdoc_space: string;
+
+  /**
+   * The hyphen that optionally separates the head of a JSDoc tag from its description, along with
+   * the whitespace that follows the hyphen. The hyphen is kept on the same line as the head,
+   * because a line that starts with a hyphen would read as a markdown list.
+   */
+  jsdoc_separator: string;
+
   /** Whitespace that follows the content and precedes the close. */
   suffix: string;
 }
 
 type Region = keyof Pick<CommentLine,
-  'lead_whitespace' | 'open' | 'close' | 'prefix' | 'content' | 'suffix' | 'close'>;
+  'lead_code' | 'lead_whitespace' | 'open' | 'close' | 'prefix' | 'content' | 'suffix' | 'close'>;
 
 /**
  * Returns the length of the text in the given line up to the end of the given region.
  */
 export function endIndexOf(line: CommentLine, region: Region) {
   switch (region) {
+  case 'lead_code': {
+    return line.lead_code.length;
+  }
+
   case 'lead_whitespace': {
-    return line.lead_whitespace.length;
+    return line.lead_code.length + line.lead_whitespace.length;
   }
 
   case 'open': {
-    return line.lead_whitespace.length + line.open.length;
+    return line.lead_code.length + line.lead_whitespace.length + line.open.length;
   }
 
   case 'prefix': {
-    return line.lead_whitespace.length + line.open.length + line.prefix.length;
+    return line.lead_code.length + line.lead_whitespace.length + line.open.length +
+        line.prefix.length;
   }
 
   case 'content': {
-    return line.lead_whitespace.length + line.open.length + line.prefix.length +
-        line.content.length;
+    return line.lead_code.length + line.lead_whitespace.length + line.open.length +
+        line.prefix.length + line.content.length;
   }
 
   case 'suffix': {
-    return line.lead_whitespace.length + line.open.length + line.prefix.length +
-        line.content.length + line.suffix.length;
+    return line.lead_code.length + line.lead_whitespace.length + line.open.length +
+        line.prefix.length + line.content.length + line.suffix.length;
   }
 
   case 'close': {
-    return line.lead_whitespace.length + line.open.length + line.prefix.length +
-        line.content.length + line.suffix.length + line.close.length;
+    return line.lead_code.length + line.lead_whitespace.length + line.open.length +
+        line.prefix.length + line.content.length + line.suffix.length + line.close.length;
   }
 
   default: {
@@ -152,7 +311,183 @@ export function endIndexOf(line: CommentLine, region: Region) {
   }
 }
 
-export function parseLine(context: CommentContext, comment: estree.Comment, lineIndex: number) {
+/**
+ * Returns whether the comment is of a type that is analyzed. Only line and block comments are
+ * analyzed. Other types of comments, such as the Shebang comment for a hashbang line, are never
+ * split or merged.
+ */
+export function isAnalyzable(comment: Comment) {
+  return comment.type === 'Line' || comment.type === 'Block';
+}
+
+/**
+ * Returns the visual column of the end of the given region in the given line. Unlike endIndexOf,
+ * tabs are expanded to the next tab stop. This is the value to compare against the maximum line
+ * length, whereas endIndexOf is the value to use when locating text in the source code.
+ */
+export function endColumnOf(line: CommentLine, region: Region) {
+  return measureText(line.text.slice(0, endIndexOf(line, region)), line.context.tab_width);
+}
+
+/**
+ * Returns the visual column reached after writing the given text starting from the given column.
+ * Each tab advances to the next multiple of the tab width. Other characters are measured per
+ * grapheme cluster, so wide characters count as two columns and combining marks count as none.
+ */
+export function measureText(text: string, tabWidth: number, startColumn = 0) {
+  let column = startColumn;
+  for (const grapheme of segmentGraphemes(text)) {
+    if (grapheme === '\t') {
+      column += tabWidth - column % tabWidth;
+    } else {
+      column += graphemeWidth(grapheme);
+    }
+  }
+
+  return column;
+}
+
+/**
+ * Returns the index into the given text of the last natural boundary within the text that is at or
+ * before the given visual column, or -1 when there is no such boundary. The natural boundaries are
+ * after a slash, a period, an underscore or a double colon, and before the hump of a camelCase
+ * word. This is where a token that is too long for a line, such as an identifier or a file path, is
+ * broken.
+ */
+export function indexOfSmartBreak(text: string, column: number, tabWidth: number, startColumn = 0) {
+  const limit = indexOfColumn(text, column, tabWidth, startColumn);
+
+  for (let index = Math.min(limit, text.length - 1); index > 0; index--) {
+    const before = text[index - 1];
+    const after = text[index];
+    if (/[/._]/.test(before) && !/[/._:]/.test(after)) {
+      return index;
+    }
+
+    if (text.slice(index - 2, index) === '::' && after !== ':') {
+      return index;
+    }
+
+    if (/[a-z0-9]/.test(before) && /[A-Z]/.test(after)) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the index into the given text of the last grapheme cluster boundary that is at or before
+ * the given visual column, where the text starts at the given start column. This is the inverse of
+ * measureText. The index never falls within a surrogate pair or a cluster.
+ */
+export function indexOfColumn(text: string, column: number, tabWidth: number, startColumn = 0) {
+  let index = 0;
+  let currentColumn = startColumn;
+  for (const grapheme of segmentGraphemes(text)) {
+    currentColumn = measureText(grapheme, tabWidth, currentColumn);
+    if (currentColumn > column) {
+      break;
+    }
+
+    index += grapheme.length;
+  }
+
+  return index;
+}
+
+/**
+ * The fewest columns that a line split from another line leaves for its text after the indentation
+ * of the text. A hanging indent that would leave fewer columns is dropped.
+ */
+const MINIMUM_TEXT_WIDTH = 5;
+
+/**
+ * Returns whether a line whose text starts at the given column leaves enough room for the text.
+ */
+export function leavesRoomForText(context: CommentContext, column: number) {
+  return column <= context.max_line_length - MINIMUM_TEXT_WIDTH;
+}
+
+/**
+ * Returns the whitespace that indents lines split from the given line relative to the prefix of
+ * the given line. Lines split from a markdown list item or from a line that starts with fixme text
+ * hang under the text after the bullet or tag. Lines split from the description of a JSDoc tag are
+ * indented by a fixed amount, or when descriptions are aligned, hang under the description.
+ * Otherwise, or when the indent would leave too little room for text, there is no additional
+ * indentation.
+ */
+export function hangingIndentOf(line: CommentLine) {
+  const indent = composeHangingIndent(line);
+  return leavesRoomForText(line.context, endColumnOf(line, 'prefix') + indent.length) ? indent : '';
+}
+
+function composeHangingIndent(line: CommentLine) {
+  if (containsMarkdownList(line)) {
+    return ' '.repeat(measureText(line.markup + line.markup_space, line.context.tab_width));
+  }
+
+  if (line.fixme) {
+    return ' '.repeat(measureText(line.fixme + line.fixme_space, line.context.tab_width));
+  }
+
+  if (line.jsdoc_head) {
+    if (line.context.jsdoc_description_offset === undefined) {
+      return ' '.repeat(line.context.jsdoc_indent);
+    }
+
+    return ' '.repeat(line.context.jsdoc_description_offset +
+      measureText(line.jsdoc_separator, line.context.tab_width));
+  }
+
+  return '';
+}
+
+/**
+ * Returns the whitespace that vertically aligns the start of a new line with the start of the open
+ * region of the given line. This is usually the lead whitespace. For a trailing comment, the code
+ * before the comment is replaced by spaces, but the indentation of the code is kept as is.
+ */
+export function alignmentOf(line: CommentLine) {
+  if (!line.lead_code) {
+    return line.lead_whitespace;
+  }
+
+  const indentation = /^\s*/.exec(line.lead_code)[0];
+  const indentationColumn = measureText(indentation, line.context.tab_width);
+  return indentation + ' '.repeat(endColumnOf(line, 'lead_whitespace') - indentationColumn);
+}
+
+/**
+ * Returns whether the comment is a JSX comment, a block comment that is the only content of a JSX
+ * expression container such as "{/* text *\/}".
+ */
+export function isJSXComment(code: eslint.SourceCode, comment: Comment) {
+  if (comment.type !== 'Block') {
+    return false;
+  }
+
+  const previousToken = code.getTokenBefore(<estree.Comment>comment, { includeComments: true });
+  const nextToken = code.getTokenAfter(<estree.Comment>comment, { includeComments: true });
+  if (!previousToken || previousToken.value !== '{' || !nextToken || nextToken.value !== '}') {
+    return false;
+  }
+
+  const node = code.getNodeByRangeIndex(previousToken.range[0]);
+  return !!node && (<{ type: string }>node).type === 'JSXExpressionContainer';
+}
+
+/**
+ * Returns whether the comment continues the run of line comments of the previous comment. A run of
+ * line comments on consecutive lines is treated as a single comment by pragmas and when detecting
+ * license comments.
+ */
+export function continuesRun(previous: Comment, comment: Comment) {
+  return previous !== undefined && comment !== undefined && previous.type === 'Line' &&
+    comment.type === 'Line' && previous.loc.end.line + 1 === comment.loc.start.line;
+}
+
+export function parseLine(context: CommentContext, comment: Comment, lineIndex: number) {
   const line = <CommentLine>{};
   line.context = context;
   line.comment = comment;
@@ -160,83 +495,139 @@ export function parseLine(context: CommentContext, comment: estree.Comment, line
   line.text = context.code.lines[lineIndex - 1];
 
   const textTrimmedStart = line.text.trimStart();
-  line.lead_whitespace = line.text.slice(0, line.text.length - textTrimmedStart.length);
+
+  if (lineIndex === comment.loc.start.line) {
+    const textBeforeComment = line.text.slice(0, comment.loc.start.column);
+    line.lead_code = textBeforeComment.trimEnd();
+    line.lead_whitespace = textBeforeComment.slice(line.lead_code.length);
+  } else {
+    line.lead_code = '';
+    line.lead_whitespace = line.text.slice(0, line.text.length - textTrimmedStart.length);
+  }
+
+  const leadLength = line.lead_code.length + line.lead_whitespace.length;
 
   if (comment.type === 'Line') {
-    line.open = '//';
-    line.close = '';
+    // A fourth slash is not treated as a part of the open, because a run of four or more slashes is
+    // typically a separator or code that was commented out.
 
-    // TODO: support triple slashes, treat the 3rd slash a part of the prefix, and upon making this
-    // change make sure to fix the typescript <reference> check in line-comment handlers
+    line.open = /^\/(?!\/)/.test(comment.value) ? '///' : '//';
+    line.close = '';
 
-    const afterOpen = line.text.slice(line.lead_whitespace.length + line.open.length);
+    const afterOpen = line.text.slice(leadLength + line.open.length);
     const afterOpenTrimStart = afterOpen.trimStart();
     const afterOpenSpaceLen = afterOpen.length - afterOpenTrimStart.length;
-    line.prefix = line.text.slice(line.lead_whitespace.length + line.open.length,
-      line.lead_whitespace.length + line.open.length + afterOpenSpaceLen);
-    line.content = line.text.slice(line.lead_whitespace.length + line.open.length +
+    line.prefix = line.text.slice(leadLength + line.open.length,
+      leadLength + line.open.length + afterOpenSpaceLen);
+    line.content = line.text.slice(leadLength + line.open.length +
       line.prefix.length).trimEnd();
-    line.suffix = line.text.slice(line.lead_whitespace.length + line.open.length +
+    line.suffix = line.text.slice(leadLength + line.open.length +
       line.prefix.length + line.content.length);
   } else if (comment.type === 'Block') {
     if (lineIndex === comment.loc.start.line && lineIndex === comment.loc.end.line) {
       line.open = '/*';
       line.close = '*/';
-      const prefixHaystack = line.text.slice(line.lead_whitespace.length + line.open.length,
+      const prefixHaystack = line.text.slice(leadLength + line.open.length,
         comment.loc.end.column - line.close.length);
       const prefixMatch = /^\**\s*/.exec(prefixHaystack);
       line.prefix = prefixMatch ? prefixMatch[0] : '';
-      line.content = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.content = line.text.slice(leadLength + line.open.length +
         line.prefix.length, comment.loc.end.column - line.close.length).trimEnd();
-      line.suffix = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.suffix = line.text.slice(leadLength + line.open.length +
         line.prefix.length + line.content.length, comment.loc.end.column - line.close.length);
     } else if (lineIndex === comment.loc.start.line) {
       line.open = '/*';
       line.close = '';
-      const prefixHaystack = line.text.slice(line.lead_whitespace.length + line.open.length);
-      const prefixMatch = /^\*+\s*/.exec(prefixHaystack);
+      const prefixHaystack = line.text.slice(leadLength + line.open.length);
+      const prefixMatch = /^\**\s*/.exec(prefixHaystack);
       line.prefix = prefixMatch ? prefixMatch[0] : '';
-      line.content = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.content = line.text.slice(leadLength + line.open.length +
         line.prefix.length).trimEnd();
-      line.suffix = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.suffix = line.text.slice(leadLength + line.open.length +
         line.prefix.length + line.content.length);
     } else if (lineIndex === comment.loc.end.line) {
       line.open = '';
       line.close = '*/';
-      const prefixHaystack = line.text.slice(line.lead_whitespace.length,
+      const prefixHaystack = line.text.slice(leadLength,
         comment.loc.end.column - line.close.length);
       const prefixMatch = /^\*\s+/.exec(prefixHaystack);
       line.prefix = prefixMatch ? prefixMatch[0] : '';
-      line.content = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.content = line.text.slice(leadLength + line.open.length +
         line.prefix.length, comment.loc.end.column - line.close.length).trimEnd();
-      line.suffix = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.suffix = line.text.slice(leadLength + line.open.length +
         line.prefix.length + line.content.length, comment.loc.end.column - line.close.length);
     } else {
       line.open = '';
       line.close = '';
-      const prefixMatch = /^\*\s+/.exec(textTrimmedStart);
+      const prefixMatch = /^\*(?:\s+|$)/.exec(textTrimmedStart);
       line.prefix = prefixMatch ? prefixMatch[0] : '';
-      line.content = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.content = line.text.slice(leadLength + line.open.length +
         line.prefix.length).trimEnd();
-      line.suffix = line.text.slice(line.lead_whitespace.length + line.open.length +
+      line.suffix = line.text.slice(leadLength + line.open.length +
         line.prefix.length + line.content.length);
     }
   } else {
-    // eslint for some reason if forgetting about its own shebang type in the AST
-    // TODO: define my own Comment type and use it in place of eslint's erroneous type
-    throw new TypeError(`Unexpected comment type "${<string>comment.type}"`);
+    // Callers are expected to skip other types of comments, see isAnalyzable.
+    throw new TypeError(`Unexpected comment type "${comment.type}"`);
+  }
+
+  // The closing brace of a JSX comment, along with any whitespace before it, stays with the close
+  // of the comment.
+
+  if (context.jsx && lineIndex === comment.loc.end.line) {
+    const braceMatch = /^\s*\}/.exec(line.text.slice(comment.loc.end.column));
+    if (braceMatch) {
+      line.close += braceMatch[0];
+    }
+  }
+
+  if (comment.type === 'Block' && line.prefix.startsWith('*')) {
+    const quoteMatch = /^(?:>[ \t]*)+/.exec(line.content);
+    if (quoteMatch) {
+      line.prefix += quoteMatch[0];
+      line.content = line.content.slice(quoteMatch[0].length);
+    }
   }
 
   const [markup, markupSpace] = parseMarkup(line);
   line.markup = markup;
   line.markup_space = markupSpace;
+  line.md_heading = line.markup.startsWith('#');
+  line.md_hard_break = parseHardBreak(line);
 
   line.directive = parseDirective(line);
-  line.fixme = parseFixme(line.content);
+  const [fixme, fixmeSpace] = parseFixme(line);
+  line.fixme = fixme;
+  line.fixme_space = fixmeSpace;
+
+  const [jsdocHead, jsdocSpace, jsdocSeparator] = parseJSDocTag(line);
+  line.jsdoc_head = jsdocHead;
+  line.jsdoc_space = jsdocSpace;
+  line.jsdoc_separator = jsdocSeparator;
 
   return line;
 }
 
+/**
+ * Parses the lines of the comment. Unlike parseLine, this also recognizes the structures that span
+ * more than one line, such as a setext heading.
+ */
+export function parseLines(context: CommentContext, comment: Comment) {
+  const lines: CommentLine[] = [];
+  for (let index = comment.loc.start.line; index <= comment.loc.end.line; index++) {
+    lines.push(parseLine(context, comment, index));
+  }
+
+  for (let index = 0; index < lines.length - 1; index++) {
+    if (lines[index].content && !lines[index].markup && containsMarkdownRule(lines[index + 1]) &&
+      /^(?:=+|-+)$/.test(lines[index + 1].markup)) {
+      lines[index].md_heading = true;
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Parses the content for markup. Returns an array where the first element is some of the markup
  * and the second is trailing whitespace if any. This focuses on markdown but it can also match
@@ -245,17 +636,19 @@ export function parseLine(context: CommentContext, comment: estree.Comment, line
  * @todo consider creating a jsdoc prop and a markdown prop and not mixing the two.
  */
 function parseMarkup(line: CommentLine) {
-  // Only recognize markup in block comments.
-  if (line.comment.type !== 'Block') {
+  if (!line.content.length) {
     return ['', ''];
   }
 
-  // Only recognize markup in javadoc comments
-  if (!line.prefix.startsWith('*')) {
-    return ['', ''];
+  // Line comments only recognize the markup that spans a whole line and would be broken by merging
+  // it with the text around it, which is a table row or a link reference definition.
+
+  if (line.comment.type === 'Line') {
+    return parseLineMarkup(line);
   }
 
-  if (!line.content.length) {
+  // Only recognize markup in javadoc comments
+  if (!line.prefix.startsWith('*')) {
     return ['', ''];
   }
 
@@ -267,7 +660,13 @@ function parseMarkup(line: CommentLine) {
     return [jsdocMatches[1], jsdocMatches[2] ? jsdocMatches[2] : ''];
   }
 
-  // TODO: markdown horizontal rules
+  // A thematic break, or the underline of a setext heading, is markup that spans the whole line.
+  // This is tested before lists because a thematic break may also start with an asterisk or hyphen.
+
+  if (/^(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,}|=+|-+)$/.test(line.content)) {
+    return [line.content, ''];
+  }
+
   // TODO: indented lists (we might already support this because whitespace in prefix)
 
   const matches = /^([*-]|\d+\.|#{1,6})(\s+)/.exec(line.content);
@@ -275,16 +674,72 @@ function parseMarkup(line: CommentLine) {
     return [matches[1], matches[2]];
   }
 
-  // markdown table parsing, this probably could be written better
-  // TODO: support trailing space
+  return parseLineMarkup(line);
+}
+
+/**
+ * Parses the content for a markdown link reference definition, such as "[1]: https://example.com",
+ * or a row of a markdown table, including the separator row below the header row. The trailing
+ * whitespace of a row is a part of the suffix rather than the content, and the pipe at the end of a
+ * row is optional.
+ */
+function parseLineMarkup(line: CommentLine) {
+  const referenceMatches = /^(\[[^\]]+\]:)(\s+|$)/.exec(line.content);
+  if (referenceMatches) {
+    return [referenceMatches[1], referenceMatches[2]];
+  }
 
-  if (/^\|.+\|$/.test(line.content)) {
+  if (/^\|.*\|/.test(line.content)) {
     return [line.content, ''];
   }
 
   return ['', ''];
 }
 
+/**
+ * Parses the end of the line for a markdown hard line break. Like other markup, this is only
+ * recognized in javadoc comments. The last line of a block comment cannot end in a hard line break
+ * because there is no line after it.
+ */
+function parseHardBreak(line: CommentLine) {
+  if (line.comment.type !== 'Block' || !line.prefix.startsWith('*') || !line.content.length ||
+    line.index === line.comment.loc.end.line) {
+    return '';
+  }
+
+  if (line.content.endsWith('\\')) {
+    return '\\';
+  }
+
+  const matches = / {2,}$/.exec(line.suffix);
+  return matches ? matches[0] : '';
+}
+
+/**
+ * Patterns of annotations for other tools, such as coverage tools, bundlers, and formatters, that
+ * are recognized as directives on any line of a comment.
+ */
+const DIRECTIVE_PATTERNS = [
+  /^(?:c8|v8|node:coverage) (?:ignore|disable|enable)/,
+  /^prettier-ignore/,
+  /^dprint-ignore/,
+  /^biome-ignore/,
+  /^deno-lint-ignore/,
+  /^stylelint-(?:disable|enable)/,
+  /^jscpd:ignore-(?:start|end)/,
+  /^webpack[A-Z][a-zA-Z]*\s*:/,
+  /^[#@]__[A-Z_]+__/,
+  /^@vite-ignore/,
+  /^#(?:end)?region\b/,
+  /^[#@] source(?:Mapping)?URL=/,
+  /^@jsx(?:Frag|ImportSource|Runtime)?\b/,
+  /^@(?:no)?flow\b/,
+  /^\$Flow(?:FixMe|Ignore|ExpectedError|Issue)/,
+  /^@(?:jest|vitest)-environment\b/,
+  /^@refresh reset/,
+  /^comment-reflow(?:-(?:disable|enable|ignore)\b|\s+max-length=\d+)/
+];
+
 function parseDirective(line: CommentLine) {
   if (line.content.length === 0) {
     return '';
@@ -367,71 +822,206 @@ function parseDirective(line: CommentLine) {
     return '@ts-expect-error';
   }
 
-  if (line.comment.type === 'Line' && /^\/\s*<(reference|amd)/.test(line.content)) {
-    return line.content.slice(1).trimLeft();
+  if (line.open === '///' && /^<(reference|amd)/.test(line.content)) {
+    return line.content;
+  }
+
+  for (const pattern of DIRECTIVE_PATTERNS) {
+    const match = pattern.exec(line.content);
+    if (match) {
+      return match[0];
+    }
+  }
+
+  for (const pattern of line.context.directives) {
+    const match = pattern.exec(line.content);
+    if (match) {
+      return match[0];
+    }
   }
 
   return '';
 }
 
 /**
- * @todo regex
- * @todo do we indent the text on overflow? if so we need to figure out the indent level.
+ * Parses the start of the content for a FIXME tag such as "TODO:" or "todo(#123):". Returns an
+ * array where the first element is the tag text, including any parenthesized text and the colon,
+ * and the second element is the whitespace that follows it. The tags are configured by the fixme
+ * pattern of the context.
  */
-function parseFixme(content: string) {
-  if (content.startsWith('FIXME: ')) {
-    return 'FIXME';
+function parseFixme(line: CommentLine) {
+  const matches = line.context.fixme_pattern.exec(line.content);
+  if (matches) {
+    return [matches[1], matches[2]];
   }
 
-  if (content.startsWith('TODO: ')) {
-    return 'TODO';
-  }
+  return ['', ''];
+}
 
-  if (content.startsWith('NOTE: ')) {
-    return 'NOTE';
+/**
+ * Parses the head of a JSDoc tag that has a description, such as "@param {string} name" or
+ * "@see {@link Foo}". Returns an array where the first element is the head, the second element is
+ * the whitespace that follows it, and the third element is the hyphen that separates the head from
+ * the description along with the whitespace after the hyphen. A type expression that does not end
+ * on the same line is not parsed.
+ */
+function parseJSDocTag(line: CommentLine) {
+  if (!containsJSDocTag(line) ||
+    !/^@(?:param|arg|argument|returns?|throws|exception|see)$/.test(line.markup)) {
+    return ['', '', ''];
   }
 
-  if (content.startsWith('BUG: ')) {
-    return 'BUG';
-  }
+  let index = line.markup.length;
+  const typeStart = index + /^\s*/.exec(line.content.slice(index))[0].length;
+
+  if (line.content[typeStart] === '{') {
+    // Type expressions may contain nested braces, such as a record type.
+
+    let depth = 0;
+    for (index = typeStart; index < line.content.length; index++) {
+      if (line.content[index] === '{') {
+        depth++;
+      } else if (line.content[index] === '}') {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      }
+    }
 
-  if (content.startsWith('WARN: ')) {
-    return 'WARN';
-  }
+    if (depth > 0) {
+      return ['', '', ''];
+    }
 
-  if (content.startsWith('WARNING: ')) {
-    return 'WARNING';
+    index++;
   }
 
-  if (content.startsWith('HACK: ')) {
-    return 'HACK';
+  if (line.markup === '@see' && index === line.markup.length) {
+    // The target of a see tag that is not an inline link tag, such as a URL or a name.
+
+    const targetStart = index + /^\s*/.exec(line.content.slice(index))[0].length;
+    const targetMatch = /^\S+/.exec(line.content.slice(targetStart));
+    if (targetMatch) {
+      index = targetStart + targetMatch[0].length;
+    }
+  } else if (/^@(?:param|arg|argument)$/.test(line.markup)) {
+    const nameStart = index + /^\s*/.exec(line.content.slice(index))[0].length;
+    const nameMatch = /^(?:\[[^\]]*\]|[^\s[\]-]\S*)/.exec(line.content.slice(nameStart));
+    if (nameMatch) {
+      index = nameStart + nameMatch[0].length;
+    }
   }
 
-  // if (/^todo\(?.+\)?\:|warn\:|hack\:/i.test(currentLine.content)) {
-  //   return;
-  // }
+  const head = line.content.slice(0, index);
+  const space = /^\s*/.exec(line.content.slice(index))[0];
+  const separatorMatch = /^-(?:\s+|$)/.exec(line.content.slice(index + space.length));
+  return [head, space, separatorMatch ? separatorMatch[0] : ''];
+}
+
+/**
+ * Splits the content of the line into tokens like tokenize, except that the head of a JSDoc tag,
+ * along with the hyphen that separates it from the description, is a single token, and so is a
+ * FIXME tag.
+ */
+export function tokenizeContent(line: CommentLine) {
+  if (line.fixme) {
+    return [line.fixme, ...tokenize(line.content.slice(line.fixme.length))];
+  }
 
-  if (content.startsWith('TODO(')) {
-    return 'TODO';
+  if (!line.jsdoc_head) {
+    return tokenize(line.content);
   }
 
-  return '';
+  const headLength = line.jsdoc_head.length + (line.jsdoc_separator ?
+    line.jsdoc_space.length + 1 : 0);
+  return [line.content.slice(0, headLength), ...tokenize(line.content.slice(headLength))];
 }
 
 /**
- * Split a string into an array of word, hyphen, and space tokens.
+ * Patterns of text that is never broken across lines, even though the text may contain whitespace
+ * or hyphens. These are inline JSDoc link tags such as "{@link Foo | label}", angle bracket
+ * autolinks, URLs, and email addresses.
+ */
+const ATOMIC_PATTERNS = [
+  /\{@link(?:code|plain)?\b[^}]*\}/,
+  /<[a-zA-Z][a-zA-Z0-9+.-]*:[^\s<>]*>/,
+  /<[^\s@<>]+@[^\s@<>]+>/,
+  /\b[a-zA-Z][a-zA-Z0-9+.-]*:\/\/\S+/,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+];
+
+const ATOMIC_PATTERN = new RegExp(ATOMIC_PATTERNS.map(pattern => pattern.source).join('|'));
+
+/**
+ * Matches a markdown code span. A code span starts and ends with the same number of backticks.
+ */
+const CODE_SPAN_PATTERN = /(`+)(?:.*?[^`])?\1(?!`)/g;
+
+/**
+ * Matches the destination of an inline markdown link, from the bracket that ends the text of the
+ * link to the parenthesis that ends the destination, such as "](https://example.com)".
+ */
+const LINK_DESTINATION_PATTERN = /\]\([^)]*\)/g;
+
+/**
+ * Split a string into an array of word, hyphen, and space tokens. Atomic text, such as a URL, is
+ * kept within a single word token along with any text that is attached to it, such as punctuation.
+ * Within a markdown code span, only whitespace separates tokens, and the destination of a markdown
+ * link is kept with the word that precedes it, so that a line only breaks within the visible text
+ * of a code span or link.
  */
 export function tokenize(string: string) {
-  const matches = string.matchAll(/[^\s-]+|(?:\s+|-)/g);
+  // Mark the whitespace and hyphens that do not separate tokens.
+
+  const glued = new Array<boolean>(string.length).fill(false);
+
+  for (const match of string.matchAll(new RegExp(ATOMIC_PATTERN, 'g'))) {
+    glued.fill(true, match.index, match.index + match[0].length);
+  }
+
+  for (const match of string.matchAll(CODE_SPAN_PATTERN)) {
+    for (let index = match.index; index < match.index + match[0].length; index++) {
+      glued[index] = glued[index] || string[index] === '-';
+    }
+  }
+
+  for (const match of string.matchAll(LINK_DESTINATION_PATTERN)) {
+    glued.fill(true, match.index, match.index + match[0].length);
+  }
+
   const tokens: string[] = [];
+  let previousKind: 'word' | 'space' | 'hyphen';
+
+  for (let index = 0; index < string.length; index++) {
+    const character = string[index];
+    let kind: typeof previousKind = 'word';
+    if (!glued[index] && /\s/.test(character)) {
+      kind = 'space';
+    } else if (!glued[index] && character === '-') {
+      kind = 'hyphen';
+    }
+
+    if (kind === previousKind && kind !== 'hyphen') {
+      tokens[tokens.length - 1] += character;
+    } else {
+      tokens.push(character);
+    }
 
-  for (const match of matches) {
-    tokens.push(match[0]);
+    previousKind = kind;
   }
 
   return tokens;
 }
 
+/**
+ * Returns whether the token contains atomic text, such as a URL, or markdown syntax, such as a code
+ * span or the destination of a link. Such a token is never broken, even when it does not fit on a
+ * line by itself.
+ */
+export function isAtomicToken(token: string) {
+  return ATOMIC_PATTERN.test(token) || /`|\]\(/.test(token);
+}
+
 export function isLeadWhitespaceAligned(current: CommentLine, next?: CommentLine) {
   // When there is no next line, there is no misalignment concern, so report aligned.
   if (!next) {
@@ -448,7 +1038,7 @@ export function isLeadWhitespaceAligned(current: CommentLine, next?: CommentLine
   if (current.comment.type === 'Block') {
     if (current.prefix.startsWith('*')) {
       if (current.index === current.comment.loc.start.line) {
-        return next.lead_whitespace.length - current.lead_whitespace.length === 1;
+        return endColumnOf(next, 'lead_whitespace') - endColumnOf(current, 'lead_whitespace') === 1;
       } else {
         // FALL THROUGH
       }
@@ -457,12 +1047,159 @@ export function isLeadWhitespaceAligned(current: CommentLine, next?: CommentLine
     }
   }
 
-  return current.lead_whitespace.length === next.lead_whitespace.length;
+  return endColumnOf(current, 'lead_whitespace') === endColumnOf(next, 'lead_whitespace');
+}
+
+/**
+ * Returns whether the current line continues the text of the previous line, regardless of length.
+ * Lines that are related in this way may have their text moved between them, and a run of such
+ * lines forms a paragraph.
+ */
+export function canMerge(previous: CommentLine, current: CommentLine) {
+  if (!previous) {
+    return false;
+  }
+
+  if (previous.context.in_md_fence || previous.context.in_jsdoc_example) {
+    return false;
+  }
+
+  if (current.index - previous.index !== 1) {
+    return false;
+  }
+
+  if (!previous.content || !current.content) {
+    return false;
+  }
+
+  // Triple slash comments and regular line comments are different kinds of comments.
+
+  if (previous.comment.type === 'Line' && current.comment.type === 'Line' &&
+    previous.open !== current.open) {
+    return false;
+  }
+
+  // A trailing comment never continues the text of a comment on the previous line.
+
+  if (current.lead_code) {
+    return false;
+  }
+
+  if (previous.directive || current.directive || current.fixme) {
+    return false;
+  }
+
+  // Headings and rules are never merged with the text around them, and a hard line break ends the
+  // line that it is in.
+
+  if (previous.md_heading || current.md_heading || containsMarkdownRule(previous) ||
+    containsMarkdownRule(current) || previous.md_hard_break) {
+    return false;
+  }
+
+  // Each row of a table is a line of its own, and so is a link reference definition.
+
+  if (containsMarkdownTable(previous) || containsMarkdownTable(current) ||
+    containsReferenceDefinition(previous) || containsReferenceDefinition(current)) {
+    return false;
+  }
+
+  // The text of a blockquote is only merged with text of the same blockquote.
+
+  if (quoteLevelOf(previous) !== quoteLevelOf(current)) {
+    return false;
+  }
+
+  // The lines that open and close a markdown fence are never merged with the text around them.
+
+  if (previous.content.startsWith('```') || current.content.startsWith('```')) {
+    return false;
+  }
+
+  // With semantic line breaks, the text after the end of a sentence or a clause starts a new line.
+
+  if (previous.context.semantic_line_breaks && endsSentenceOrClause(previous)) {
+    return false;
+  }
+
+  if (!isLeadWhitespaceAligned(previous, current)) {
+    return false;
+  }
+
+  if (endColumnOf(previous, 'lead_whitespace') === endColumnOf(current, 'lead_whitespace') &&
+    endColumnOf(previous, 'prefix') - endColumnOf(previous, 'open') !==
+    endColumnOf(current, 'prefix') - endColumnOf(current, 'open')) {
+    if (previous.fixme && endColumnOf(current, 'prefix') - endColumnOf(current, 'open') ===
+      endColumnOf(previous, 'prefix') - endColumnOf(previous, 'open') +
+      measureText(previous.fixme + previous.fixme_space, previous.context.tab_width)) {
+      // allow merge because the current line hangs under the text that follows the fixme tag of the
+      // previous line, which is how a split fixme line is indented.
+    } else if (previous.markup) {
+      // allow merge even though indentation because previous line is markup.
+      // for example, this might the second line of a bullet point with extra
+      // leading whitespace but if the first line of the bullet point is short
+      // we still want to merge. this is also how a split list item is indented,
+      // see hangingIndentOf, including the items of a nested list.
+    } else {
+      // the two lines have different content indentation, assume this is not
+      // author laziness and do not merge.
+      return false;
+    }
+  }
+
+  if (containsMarkdownList(current)) {
+    return false;
+  }
+
+  if (containsJSDocTag(current)) {
+    return false;
+  }
+
+  return true;
+}
+
+function endsSentenceOrClause(line: CommentLine) {
+  const tokens = tokenizeContent(line);
+  const lastToken = tokens[tokens.length - 1];
+  if (!lastToken || isAtomicToken(lastToken) || (tokens.length === 1 && line.jsdoc_head)) {
+    return false;
+  }
+
+  return isSentenceEnd(lastToken, line.context.abbreviations) || isClauseEnd(lastToken);
 }
 
 export function containsMarkdownList(line: CommentLine) {
-  return line.comment.type === 'Block' && (line.markup.startsWith('*') ||
-    line.markup.startsWith('-') || /^\d/.test(line.markup));
+  return line.comment.type === 'Block' && /^(?:[*-]|\d+\.)$/.test(line.markup) &&
+    line.markup_space.length > 0;
+}
+
+/**
+ * Returns whether the line is a markdown thematic break, such as "---", or the underline of a
+ * setext heading, such as "===".
+ */
+export function containsMarkdownRule(line: CommentLine) {
+  return line.comment.type === 'Block' && /^[-*_=]/.test(line.markup) && !line.markup_space;
+}
+
+/**
+ * Returns whether the line is a row of a markdown table.
+ */
+export function containsMarkdownTable(line: CommentLine) {
+  return line.markup.startsWith('|');
+}
+
+/**
+ * Returns whether the line is a markdown link reference definition.
+ */
+function containsReferenceDefinition(line: CommentLine) {
+  return /^\[.*\]:$/.test(line.markup);
+}
+
+/**
+ * Returns the number of nested blockquotes that contain the line.
+ */
+function quoteLevelOf(line: CommentLine) {
+  return line.comment.type === 'Block' ? (line.prefix.match(/>/g) || []).length : 0;
 }
 
 export function containsJSDocTag(line: CommentLine) {
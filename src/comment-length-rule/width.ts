@@ -0,0 +1,107 @@
+/**
+ * Ranges of code points with an East Asian Width of Wide or Fullwidth, which occupy two columns in
+ * a monospace font. Emoji are handled separately. Each pair is an inclusive start and end.
+ *
+ * @see https://www.unicode.org/reports/tr11/
+ */
+const WIDE_RANGES = [
+  [0x1100, 0x115F],
+  [0x231A, 0x231B],
+  [0x2329, 0x232A],
+  [0x2E80, 0x303E],
+  [0x3041, 0x33FF],
+  [0x3400, 0x4DBF],
+  [0x4E00, 0x9FFF],
+  [0xA000, 0xA4CF],
+  [0xA960, 0xA97F],
+  [0xAC00, 0xD7A3],
+  [0xF900, 0xFAFF],
+  [0xFE10, 0xFE19],
+  [0xFE30, 0xFE6F],
+  [0xFF00, 0xFF60],
+  [0xFFE0, 0xFFE6],
+  [0x16FE0, 0x16FE4],
+  [0x17000, 0x18CFF],
+  [0x1B000, 0x1B2FF],
+  [0x1F200, 0x1F251],
+  [0x20000, 0x2FFFD],
+  [0x30000, 0x3FFFD]
+];
+
+/**
+ * Approximates the extended grapheme cluster boundaries of UAX #29 for environments without
+ * Intl.Segmenter. A cluster is a pair of regional indicators, or a base character followed by
+ * combining marks, emoji modifiers, tag characters, and zero width joiner sequences.
+ */
+const GRAPHEME_PATTERN = new RegExp([
+  '\\r\\n',
+  '\\p{Regional_Indicator}{2}',
+  '[^\\p{M}\\u200D][\\p{M}\\u{1F3FB}-\\u{1F3FF}\\u{E0020}-\\u{E007F}]*' +
+    '(?:\\u200D[^\\p{M}\\u200D][\\p{M}\\u{1F3FB}-\\u{1F3FF}\\u{E0020}-\\u{E007F}]*)*',
+  '[^]'
+].join('|'), 'gu');
+
+interface Segmenter {
+  segment(text: string): Iterable<{ segment: string; }>;
+}
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: string; }) => Segmenter;
+
+let segmenter: Segmenter;
+
+/**
+ * Splits text into grapheme clusters, which are the user-perceived characters. A cluster may be
+ * made of several code points, and each code point may be made of two UTF-16 code units, so text
+ * should only ever be broken between clusters.
+ */
+export function segmentGraphemes(text: string) {
+  if (segmenter === undefined) {
+    const { Segmenter } = <{ Segmenter?: SegmenterConstructor; }><unknown>Intl;
+    segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+  }
+
+  const graphemes: string[] = [];
+
+  if (segmenter) {
+    for (const { segment } of segmenter.segment(text)) {
+      graphemes.push(segment);
+    }
+  } else {
+    for (const match of text.matchAll(GRAPHEME_PATTERN)) {
+      graphemes.push(match[0]);
+    }
+  }
+
+  return graphemes;
+}
+
+/**
+ * Returns the number of columns that the given grapheme cluster occupies in a monospace font. Wide
+ * characters and emoji occupy two columns, control characters and lone combining marks occupy no
+ * columns, and everything else occupies one column. Tabs are not handled here because their width
+ * depends on their position.
+ */
+export function graphemeWidth(grapheme: string) {
+  const codePoint = grapheme.codePointAt(0);
+
+  if (/^[\p{Cc}\p{Cf}\p{M}]/u.test(grapheme)) {
+    return 0;
+  }
+
+  if (/\p{Regional_Indicator}|\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F/u.test(
+    grapheme)) {
+    return 2;
+  }
+
+  for (const [start, end] of WIDE_RANGES) {
+    if (codePoint < start) {
+      break;
+    }
+
+    if (codePoint <= end) {
+      return 2;
+    }
+  }
+
+  return 1;
+}
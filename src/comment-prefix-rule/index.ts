@@ -0,0 +1,194 @@
+import eslint from 'eslint';
+import estree from 'estree';
+import {
+  Comment, CommentContext, CommentLine, continuesRun, endIndexOf, measureText, parseLines,
+  sniffLineBreakStyle
+} from '../comment-length-rule/util';
+
+export default <eslint.Rule.RuleModule>{
+  meta: {
+    type: 'layout',
+    fixable: 'whitespace',
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          tabWidth: {
+            type: 'integer',
+            minimum: 1
+          }
+        },
+        additionalProperties: false
+      }
+    ],
+    messages: {
+      space: 'Line {{line}} should have one space after {{marker}}.',
+      indent: 'Line {{line}} should have {{count}} spaces after {{marker}}.'
+    }
+  },
+  create: createCommentPrefixRule
+};
+
+const DEFAULT_TAB_WIDTH = 4;
+
+/**
+ * The whitespace between the marker of a line and its text, along with the column where the
+ * whitespace starts.
+ */
+interface Gap {
+  line: CommentLine;
+  marker: string;
+  start: number;
+  whitespace: string;
+  column: number;
+}
+
+function createCommentPrefixRule(context: eslint.Rule.RuleContext) {
+  return {
+    Program: function(node: estree.Node) {
+      return analyzeProgram(context, node);
+    }
+  };
+}
+
+function analyzeProgram(ruleContext: eslint.Rule.RuleContext, node: estree.Node) {
+  const input = <{ tabWidth?: number }>(ruleContext.options && ruleContext.options[0] || {});
+  const tabWidth = input.tabWidth ?? DEFAULT_TAB_WIDTH;
+  const code = ruleContext.getSourceCode();
+  const comments = <Comment[]>code.getAllComments();
+
+  // Only the regions of the lines and their directives matter to the prefix, so the context does
+  // not recognize FIXME tags.
+
+  const context: CommentContext = {
+    node,
+    code,
+    line_break: sniffLineBreakStyle(ruleContext),
+    max_line_length: Infinity,
+    tab_width: tabWidth,
+    directives: [],
+    fixme_pattern: /(?!)/,
+    jsdoc_indent: 0,
+    minimum_fill: 100,
+    split_lines: true,
+    merge_lines: true,
+    wrapping: 'greedy',
+    rebalance: false
+  };
+
+  // A run of line comments on consecutive lines shares a baseline, as do the lines of a JSDoc
+  // comment. A comment that follows code is a run by itself.
+
+  let run: Gap[] = [];
+  let previousComment: Comment;
+
+  for (const comment of comments) {
+    const isJSDoc = comment.type === 'Block' && /^\*(?!\*)/.test(comment.value);
+    if (comment.type !== 'Line' && !isJSDoc) {
+      continue;
+    }
+
+    const lines = parseLines(context, comment);
+    if (!continuesRun(previousComment, comment) || lines[0].lead_code ||
+      run.some(gap => gap.line.lead_code)) {
+      checkRun(ruleContext, run);
+      run = [];
+    }
+
+    previousComment = comment;
+
+    for (const line of lines) {
+      const gap = findGap(line, isJSDoc);
+      if (gap) {
+        run.push(gap);
+      }
+    }
+  }
+
+  checkRun(ruleContext, run);
+}
+
+/**
+ * Finds the whitespace between the marker of the line and its text, where the marker is the open of
+ * a line comment or the asterisk of a line of a JSDoc comment. Returns undefined for a line without
+ * text, a line without a marker, and a directive, which may require an exact form.
+ */
+function findGap(line: CommentLine, isJSDoc: boolean) {
+  if (!line.content || line.directive) {
+    return;
+  }
+
+  const afterOpen = line.text.slice(endIndexOf(line, 'open'));
+  const matches = isJSDoc ? /^\*(?!\/)([ \t]*)(?=\S)(?!\*\/)/.exec(afterOpen) :
+    /^([ \t]*)(?=[^/\s])/.exec(afterOpen);
+  if (!matches) {
+    return;
+  }
+
+  const marker = isJSDoc ? '*' : line.open;
+  const start = endIndexOf(line, 'open') + (isJSDoc ? 1 : 0);
+
+  const gap: Gap = {
+    line,
+    marker,
+    start,
+    whitespace: matches[1],
+    column: measureText(line.text.slice(0, start), line.context.tab_width)
+  };
+
+  return gap;
+}
+
+/**
+ * Reports the lines of a run whose text does not start one space after the marker, or the same
+ * number of columns further than the least indented text of the run when the line is intentionally
+ * indented, such as a nested list or a code sample. Text right after the marker counts as indented
+ * by one space, as it is once fixed, so that it does not add to the indentation of the other lines.
+ */
+function checkRun(ruleContext: eslint.Rule.RuleContext, run: Gap[]) {
+  if (!run.length) {
+    return;
+  }
+
+  const widthOf = (gap: Gap) =>
+    measureText(gap.whitespace, gap.line.context.tab_width, gap.column) - gap.column;
+  const baseline = Math.max(1, Math.min(...run.map(widthOf)));
+
+  for (const gap of run) {
+    const count = Math.max(1, 1 + widthOf(gap) - baseline);
+    const expected = ' '.repeat(count);
+    if (gap.whitespace === expected) {
+      continue;
+    }
+
+    const { line } = gap;
+    const code = line.context.code;
+    const range = <eslint.AST.Range>[
+      code.getIndexFromLoc({ line: line.index, column: gap.start }),
+      code.getIndexFromLoc({ line: line.index, column: gap.start + gap.whitespace.length })
+    ];
+
+    ruleContext.report({
+      node: line.context.node,
+      loc: {
+        start: {
+          line: line.index,
+          column: 0
+        },
+        end: {
+          line: line.index,
+          column: line.text.length
+        }
+      },
+      messageId: count === 1 ? 'space' : 'indent',
+      data: {
+        line: `${line.index}`,
+        marker: gap.marker,
+        count: `${count}`
+      },
+      fix: function (fixer) {
+        return fixer.replaceTextRange(range, expected);
+      }
+    });
+  }
+}
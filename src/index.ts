@@ -1,7 +1,11 @@
 import commentLengthRule from './comment-length-rule';
+import commentPrefixRule from './comment-prefix-rule';
+import jsdocShapeRule from './jsdoc-shape-rule';
 
 export = {
   rules: {
-    'comment-length': commentLengthRule
+    'comment-length': commentLengthRule,
+    'comment-prefix': commentPrefixRule,
+    'jsdoc-shape': jsdocShapeRule
   }
 };
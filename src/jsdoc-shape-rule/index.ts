@@ -0,0 +1,217 @@
+import eslint from 'eslint';
+import estree from 'estree';
+import {
+  Comment, CommentContext, CommentLine, endIndexOf, measureText, parseLines, sniffLineBreakStyle
+} from '../comment-length-rule/util';
+import { JSDocShapeOptions, parseOptions, schema } from './options';
+
+export default <eslint.Rule.RuleModule>{
+  meta: {
+    type: 'layout',
+    fixable: 'whitespace',
+    schema,
+    messages: {
+      open: 'Line {{line}} should only contain the open of the comment.',
+      content: 'Line {{line}} should contain the start of the content of the comment.',
+      close: 'Line {{line}} should be followed by the close of the comment on its own line.',
+      collapse: 'Line {{line}} comment should be on a single line.',
+      align: 'Line {{line}} close of the comment should line up with the asterisks of the comment.'
+    }
+  },
+  create: createJSDocShapeRule
+};
+
+function createJSDocShapeRule(context: eslint.Rule.RuleContext) {
+  return {
+    Program: function(node: estree.Node) {
+      return analyzeProgram(context, node);
+    }
+  };
+}
+
+function analyzeProgram(ruleContext: eslint.Rule.RuleContext, node: estree.Node) {
+  const options = parseOptions(ruleContext);
+  const code = ruleContext.getSourceCode();
+  const comments = <Comment[]>code.getAllComments();
+  const lineBreakStyle = sniffLineBreakStyle(ruleContext);
+
+  for (const comment of comments) {
+    if (!isJSDocComment(comment)) {
+      continue;
+    }
+
+    // A comment that shares a line with code is left as is.
+
+    const nextToken = code.getTokenAfter(<estree.Comment>comment, { includeComments: true });
+    if (nextToken && comment.loc.end.line === nextToken.loc.start.line) {
+      continue;
+    }
+
+    const previousToken = code.getTokenBefore(<estree.Comment>comment, { includeComments: true });
+    if (previousToken && previousToken.loc.end.line === comment.loc.start.line) {
+      continue;
+    }
+
+    // Only the regions of the lines matter to the shape of a comment, so the context does not
+    // recognize directives or FIXME tags.
+
+    const context: CommentContext = {
+      node,
+      code,
+      line_break: lineBreakStyle,
+      max_line_length: options.maxLength,
+      tab_width: options.tabWidth,
+      directives: [],
+      fixme_pattern: /(?!)/,
+      jsdoc_indent: 0,
+      minimum_fill: 100,
+      split_lines: true,
+      merge_lines: true,
+      wrapping: 'greedy',
+      rebalance: false
+    };
+
+    const lines = parseLines(context, comment);
+    for (const report of checkShape(lines, options)) {
+      ruleContext.report(report);
+    }
+  }
+}
+
+/**
+ * Returns whether the comment is a JSDoc comment, a block comment that starts with exactly two
+ * asterisks. Comments such as "/*** banner ***\/" are not JSDoc comments.
+ */
+function isJSDocComment(comment: Comment) {
+  return comment.type === 'Block' && /^\*(?!\*)/.test(comment.value) && comment.value !== '*';
+}
+
+/**
+ * Checks the layout of the lines of a JSDoc comment and returns the reports of the lines that are
+ * not shaped as configured.
+ */
+function checkShape(lines: CommentLine[], options: JSDocShapeOptions) {
+  const reports: eslint.Rule.ReportDescriptor[] = [];
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+  const contentLines = lines.filter(line => line.content);
+
+  if (lines.length === 1 || contentLines.length === 0) {
+    return reports;
+  }
+
+  if (options.collapse && contentLines.length === 1) {
+    const report = collapse(lines, contentLines[0], options);
+    if (report) {
+      reports.push(report);
+      return reports;
+    }
+  }
+
+  if (options.firstLine === 'alone' && first.content) {
+    const report = composeReport(first, 'open');
+    report.fix = fixer => fixer.replaceTextRange(rangeAfterOpen(first),
+      first.context.line_break + first.lead_whitespace + ' * ' + quoteMarkersOf(first));
+    reports.push(report);
+  } else if (options.firstLine === 'content' && !first.content && lines[1].content) {
+    const report = composeReport(first, 'content');
+    const code = first.context.code;
+    const range = <eslint.AST.Range>[
+      rangeAfterOpen(first)[0],
+      code.getIndexFromLoc({ line: lines[1].index, column: endIndexOf(lines[1], 'prefix') })
+    ];
+    report.fix = fixer => fixer.replaceTextRange(range, ' ' + quoteMarkersOf(lines[1]));
+    reports.push(report);
+  }
+
+  if (last.content) {
+    const report = composeReport(last, 'close');
+    const code = last.context.code;
+    const range = <eslint.AST.Range>[
+      code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'content') }),
+      code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'suffix') })
+    ];
+    report.fix = fixer => fixer.replaceTextRange(range,
+      last.context.line_break + first.lead_whitespace + ' ');
+    reports.push(report);
+  } else if (measureText(last.text.slice(0, endIndexOf(last, 'prefix')), options.tabWidth) !==
+    measureText(first.lead_whitespace, options.tabWidth) + 1) {
+    const report = composeReport(last, 'align');
+    const code = last.context.code;
+    const range = <eslint.AST.Range>[
+      code.getIndexFromLoc({ line: last.index, column: 0 }),
+      code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'prefix') })
+    ];
+    report.fix = fixer => fixer.replaceTextRange(range, first.lead_whitespace + ' ');
+    reports.push(report);
+  }
+
+  return reports;
+}
+
+/**
+ * Returns a report that collapses a comment with a single line of content into a single line, or
+ * undefined when the collapsed comment would not fit within the maximum line length.
+ */
+function collapse(lines: CommentLine[], contentLine: CommentLine, options: JSDocShapeOptions) {
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+  const code = first.context.code;
+
+  const text = '/** ' + quoteMarkersOf(contentLine) + contentLine.content + ' */';
+  if (measureText(first.text.slice(0, endIndexOf(first, 'lead_whitespace')) + text,
+    options.tabWidth) > options.maxLength) {
+    return;
+  }
+
+  const range = <eslint.AST.Range>[
+    code.getIndexFromLoc({ line: first.index, column: endIndexOf(first, 'lead_whitespace') }),
+    code.getIndexFromLoc({ line: last.index, column: endIndexOf(last, 'close') })
+  ];
+
+  const report = composeReport(first, 'collapse');
+  report.fix = fixer => fixer.replaceTextRange(range, text);
+  return report;
+}
+
+/**
+ * Returns the range of the text of the first line of a comment that follows the two asterisks of
+ * the open, up to where the content starts.
+ */
+function rangeAfterOpen(first: CommentLine) {
+  const code = first.context.code;
+  return <eslint.AST.Range>[
+    code.getIndexFromLoc({ line: first.index, column: endIndexOf(first, 'open') + 1 }),
+    code.getIndexFromLoc({ line: first.index, column: endIndexOf(first, 'prefix') })
+  ];
+}
+
+/**
+ * Returns the blockquote markers at the end of the prefix of the line, see parseLine.
+ */
+function quoteMarkersOf(line: CommentLine) {
+  const matches = /(?:>[ \t]*)+$/.exec(line.prefix);
+  return matches ? matches[0] : '';
+}
+
+function composeReport(line: CommentLine, messageId: string) {
+  const report: eslint.Rule.ReportDescriptor = {
+    node: line.context.node,
+    loc: {
+      start: {
+        line: line.index,
+        column: 0
+      },
+      end: {
+        line: line.index,
+        column: line.text.length
+      }
+    },
+    messageId,
+    data: {
+      line: `${line.index}`
+    }
+  };
+
+  return report;
+}
@@ -0,0 +1,72 @@
+import eslint from 'eslint';
+import { defaultMaxLengthOf } from '../comment-length-rule/options';
+
+/**
+ * The resolved options of the jsdoc-shape rule. Every property is set.
+ */
+export interface JSDocShapeOptions {
+  /**
+   * Where the content of a multiline JSDoc comment starts. When alone, the first line only contains
+   * the open of the comment and the content starts on the next line. When content, the content
+   * starts on the first line, right after the open.
+   */
+  firstLine: 'alone' | 'content';
+
+  /**
+   * Whether a multiline JSDoc comment with a single line of content is collapsed into a single line
+   * comment such as "/** short *\/", when the collapsed comment fits within the maximum length.
+   */
+  collapse: boolean;
+
+  /**
+   * The maximum line length, used to determine whether a collapsed comment fits. Falls back the
+   * same way as the maximum length of the comment-length rule.
+   */
+  maxLength: number;
+
+  /**
+   * The number of columns between tab stops, used to measure a collapsed comment.
+   */
+  tabWidth: number;
+}
+
+const DEFAULT_TAB_WIDTH = 4;
+
+/**
+ * The JSON schema of the rule options.
+ */
+export const schema: eslint.Rule.RuleMetaData['schema'] = [
+  {
+    type: 'object',
+    properties: {
+      firstLine: {
+        enum: ['alone', 'content']
+      },
+      collapse: {
+        type: 'boolean'
+      },
+      maxLength: {
+        type: 'integer',
+        minimum: 1
+      },
+      tabWidth: {
+        type: 'integer',
+        minimum: 1
+      }
+    },
+    additionalProperties: false
+  }
+];
+
+/**
+ * Reads the options of the rule from the rule context and fills in the defaults.
+ */
+export function parseOptions(context: eslint.Rule.RuleContext) {
+  const input = <Partial<JSDocShapeOptions>>(context.options && context.options[0] || {});
+  const options = <JSDocShapeOptions>{};
+  options.firstLine = input.firstLine ?? 'alone';
+  options.collapse = input.collapse ?? true;
+  options.maxLength = input.maxLength ?? defaultMaxLengthOf(context);
+  options.tabWidth = input.tabWidth ?? DEFAULT_TAB_WIDTH;
+  return options;
+}
@@ -0,0 +1,60 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// URLs, email addresses, inline link tags and autolinks are never broken, so a line that consists
+// of only such text is allowed to exceed the maximum length.
+
+const tester = new eslint.RuleTester();
+
+tester.run('atomic', commentLengthRule, {
+  valid: [
+    {
+      code: '// https://example.com/aaaa-bbbb-cccc',
+      options: [20],
+    },
+    {
+      code: '// aaaa-bbbb@example.com',
+      options: [10],
+    },
+    {
+      code: '/**\n * <https://example.com/aaaa-bbbb>\n */',
+      options: [20],
+    },
+    {
+      code: '/**\n * @see https://example.com/aaaa-bbbb\n */',
+      options: [20],
+    }
+  ],
+  invalid: [
+    {
+      code: '// aaaa https://example.com/bbbb-cccc dddd',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// https://example.com/bbbb-cccc\n// dddd'
+    },
+    {
+      code: '// aaaa {@link Foo | bbbb cccc} dddd',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// {@link Foo | bbbb cccc}\n// dddd'
+    },
+    {
+      code: '/**\n * @see https://example.com/aaaa-bbbb cccc\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @see https://example.com/aaaa-bbbb\n *   cccc\n */'
+    }
+  ]
+});
@@ -0,0 +1,56 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Balanced wrapping evens out the lengths of the lines of a paragraph rather than filling each line
+// as much as possible, and avoids leaving a single word on the last line.
+
+const tester = new eslint.RuleTester();
+
+tester.run('balanced', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa bbbb cccc dddd\n// eeee ffff gggg',
+      options: [{ maxLength: 35, wrapping: 'balanced' }],
+    },
+    {
+      code: '// aaaa bbbb\n// cccc dddd',
+      options: [{ maxLength: 30, wrapping: 'balanced', mode: 'split' }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// aaaa bbbb cccc dddd eeee ffff gggg',
+      options: [{ maxLength: 30, wrapping: 'balanced' }],
+      errors: [
+        {
+          messageId: 'split',
+          data: {
+            line: '1',
+            column: '22'
+          }
+        }
+      ],
+      output: '// aaaa bbbb cccc dddd\n// eeee ffff gggg'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee ffff\n// gggg',
+      options: [{ maxLength: 35, wrapping: 'balanced' }],
+      errors: [
+        {
+          messageId: 'balance'
+        }
+      ],
+      output: '// aaaa bbbb cccc dddd\n// eeee ffff gggg'
+    },
+    {
+      code: '/**\n * aaaa bbbb cccc dddd eeee ffff gggg hhhh */',
+      options: [{ maxLength: 30, wrapping: 'balanced' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * aaaa bbbb cccc dddd\n * eeee ffff gggg hhhh */'
+    }
+  ]
+});
@@ -0,0 +1,86 @@
+import eslint from 'eslint';
+import commentPrefixRule from '../src/comment-prefix-rule';
+
+// The comment-prefix rule requires one space between the slashes of a line comment, or the asterisk
+// of a JSDoc line, and the text, while keeping the extra indentation of lines within a run.
+
+const tester = new eslint.RuleTester();
+
+tester.run('comment-prefix', commentPrefixRule, {
+  valid: [
+    {
+      code: '// aaaa\n//\n// bbbb'
+    },
+    {
+      code: '// aaaa\n// - bbbb\n//   cccc'
+    },
+    {
+      code: '/**\n * aaaa\n *\n *     bbbb();\n */'
+    },
+    {
+      code: '//# sourceMappingURL=a.js.map'
+    },
+    {
+      code: '/////////////'
+    },
+    {
+      code: '/*  aaaa */'
+    }
+  ],
+  invalid: [
+    {
+      code: '//aaaa',
+      errors: [
+        {
+          messageId: 'space'
+        }
+      ],
+      output: '// aaaa'
+    },
+    {
+      code: '//   aaaa\n//     bbbb',
+      errors: [
+        {
+          messageId: 'space'
+        },
+        {
+          messageId: 'indent'
+        }
+      ],
+      output: '// aaaa\n//   bbbb'
+    },
+    {
+      code: 'a(); //aaaa\nb(); //   bbbb',
+      errors: [
+        {
+          messageId: 'space'
+        },
+        {
+          messageId: 'space'
+        }
+      ],
+      output: 'a(); // aaaa\nb(); // bbbb'
+    },
+    {
+      code: '/**aaaa\n *   bbbb\n *bbbb */',
+      errors: [
+        {
+          messageId: 'space'
+        },
+        {
+          messageId: 'space'
+        }
+      ],
+      output: '/** aaaa\n *   bbbb\n * bbbb */'
+    },
+    {
+      code: '//aaaa\n//   bbbb',
+      errors: [
+        {
+          messageId: 'space'
+        }
+      ],
+      output: '// aaaa\n//   bbbb'
+    }
+  ]
+});
@@ -0,0 +1,62 @@
+import assert from 'assert';
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Lines that are directives for other tools are never split or merged. Additional directives are
+// configured as prefixes or as regular expression literals.
+
+const tester = new eslint.RuleTester();
+
+tester.run('directives', commentLengthRule, {
+  valid: [
+    {
+      code: '// c8 ignore next aaaa bbbb cccc',
+      options: [20],
+    },
+    {
+      code: '// aaaa\n// prettier-ignore',
+      options: [20],
+    },
+    {
+      code: '/* webpackChunkName: "aaaa-bbbb-cccc" */',
+      options: [20],
+    },
+    {
+      code: '//#region aaaa bbbb cccc dddd',
+      options: [20],
+    },
+    {
+      code: '// aaaa\n// @custom bbbb',
+      options: [{ maxLength: 20, directives: ['@custom'] }],
+    },
+    {
+      code: '// MY-TOOL aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, directives: ['/^my-tool\\b/i'] }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// aaaa\n// @custom bbbb',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa @custom bbbb'
+    }
+  ]
+});
+
+// A regular expression literal that does not compile is a configuration error, while any other
+// pattern is a prefix and always compiles.
+
+assert.throws(() => tester.run('directives-pattern', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa',
+      options: [{ directives: ['foo(', '/(/'] }]
+    }
+  ],
+  invalid: []
+}), /The directives pattern "\/\(\/" is not a valid regular expression/);
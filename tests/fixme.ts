@@ -0,0 +1,111 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Lines split from a line that starts with a FIXME tag hang under the text after the tag, and such
+// indented lines merge back into the tagged line.
+
+const tester = new eslint.RuleTester();
+
+tester.run('fixme', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa\n// TODO: bbbb',
+      options: [20],
+    },
+    {
+      code: '// TODO: aaaa bbbb\n//       cccc',
+      options: [20],
+    },
+    {
+      code: '// aaaa\n// todo(#1): bbbb',
+      options: [{ maxLength: 20, fixmeCaseSensitive: false }],
+    },
+    {
+      code: '// aaaa\n// ISSUE: bbbb',
+      options: [{ maxLength: 20, fixmeTags: ['ISSUE'] }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// TODO(#1): aaaa bbbb',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// TODO(#1): aaaa\n//           bbbb'
+    },
+    {
+      code: '/**\n * FIXME: aaaa\n *        bbbb\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * FIXME: aaaa bbbb\n */'
+    },
+    {
+      code: '// aaaa\n// todo(#1): bbbb',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa todo(#1):\n// bbbb'
+    },
+    {
+      code: '// TODO(github.com/org/repo/issues/1): aaaa bbbb',
+      options: [40],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// TODO(github.com/org/repo/issues/1):\n// aaaa bbbb'
+    },
+    {
+      code: '// TODO(github.com/org/repo/issues/12345): aaaa bbbb cccc',
+      options: [40],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// TODO(github.com/org/repo/issues/12345):\n// aaaa bbbb cccc'
+    },
+    {
+      code: '// aaaa\n// XXX handle this bbbb cccc',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// XXX handle this\n//     bbbb cccc'
+    },
+    {
+      code: '// aaaa\n// note that bbbb',
+      options: [{ maxLength: 20, fixmeCaseSensitive: false }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa note that\n// bbbb'
+    },
+    {
+      code: '// TODO: this is a long line that goes past the limit\n// and continues here',
+      options: [40],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// TODO: this is a long line that goes\n//       past the limit and continues\n' +
+        '//       here'
+    }
+  ]
+});
@@ -0,0 +1,32 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// ESLint represents the hashbang line of a script as a Shebang comment. It is never split or
+// merged, and the comments after it are still analyzed.
+
+const tester = new eslint.RuleTester();
+
+tester.run('hashbang', commentLengthRule, {
+  valid: [
+    {
+      code: '#!/usr/bin/env node --aaaa --bbbb --cccc',
+      options: [20],
+    },
+    {
+      code: '#!/usr/bin/env node\n// aaaa bbbb cccc dd',
+      options: [20],
+    }
+  ],
+  invalid: [
+    {
+      code: '#!/usr/bin/env node\n// aaaa\n// bbbb',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '#!/usr/bin/env node\n// aaaa bbbb'
+    }
+  ]
+});
@@ -10,6 +10,10 @@ tester.run('hyphen-line-split', commentLengthRule, {
     {
       code: '',
       options: [20],
+    },
+    {
+      code: '// aaaa bbbb\n// ccccc - dddd',
+      options: [19]
     }
   ],
   invalid: [
@@ -21,7 +25,37 @@ tester.run('hyphen-line-split', commentLengthRule, {
           messageId: 'split'
         }
       ],
-      output: '// TESTTESTT STTEST- \n// B'
+      output: '// TESTTESTT STTEST-\n// B'
+    },
+    {
+      code: '// aaaa bbbb ccccc - dddd',
+      options: [19],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb\n// ccccc - dddd'
+    },
+    {
+      code: '// aaaa name -\n// dddd',
+      options: [40],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa name - dddd'
+    },
+    {
+      code: '// aaaa well-\n// known',
+      options: [40],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa well-known'
     }
   ]
 });
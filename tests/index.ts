@@ -1,4 +1,29 @@
+import './atomic';
+import './balanced';
+import './comment-prefix';
+import './directives';
+import './fixme';
+import './hashbang';
 import './hyphen';
+import './inline-markdown';
+import './jsdoc-shape';
+import './jsdoc-tags';
+import './jsx';
+import './license';
 import './line-merge';
+import './list';
+import './long-tokens';
+import './markdown';
+import './max-length';
+import './mode';
+import './options';
+import './paragraph';
+import './pragma';
+import './semantic';
 import './split-simple';
+import './table';
+import './tabs';
+import './trailing-comments';
 import './trailing-whitespace';
+import './triple-slash';
+import './wide-characters';
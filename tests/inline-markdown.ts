@@ -0,0 +1,56 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Markdown code spans and links only break at the whitespace within their visible text, and a link
+// reference definition is never merged with the text around it.
+
+const tester = new eslint.RuleTester();
+
+tester.run('inline-markdown', commentLengthRule, {
+  valid: [
+    {
+      code: '// `aaaa-bbbb-cccc`',
+      options: [10],
+    },
+    {
+      code: '/**\n * aaaa\n * [1]: https://example.com\n * bbbb\n */',
+      options: [40],
+    },
+    {
+      code: '// See the docs.\n// [1]: https://example.com',
+      options: [40],
+    }
+  ],
+  invalid: [
+    {
+      code: '// aaaa `bbbb --cccc` dddd',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa `bbbb\n// --cccc` dddd'
+    },
+    {
+      code: '// aaaa [bbbb](https://example.com) cccc',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// [bbbb](https://example.com)\n// cccc'
+    },
+    {
+      code: '// aaaa [bbbb cccc](https://e.com)',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa [bbbb\n// cccc](https://e.com)'
+    }
+  ]
+});
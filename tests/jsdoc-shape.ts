@@ -0,0 +1,87 @@
+import eslint from 'eslint';
+import jsdocShapeRule from '../src/jsdoc-shape-rule';
+
+// The jsdoc-shape rule puts the open and the close of a multiline JSDoc comment on their own lines,
+// or starts the content on the line of the open, and collapses a short comment onto one line.
+
+const tester = new eslint.RuleTester();
+
+tester.run('jsdoc-shape', jsdocShapeRule, {
+  valid: [
+    {
+      code: '/** aaaa */'
+    },
+    {
+      code: '/**\n * aaaa\n * bbbb\n */'
+    },
+    {
+      code: '/** aaaa\n * bbbb\n */',
+      options: [{ firstLine: 'content' }]
+    },
+    {
+      code: '/**\n * aaaa\n */',
+      options: [{ collapse: false }]
+    },
+    {
+      code: '/**\n * aaaa bbbb cccc\n */',
+      options: [{ maxLength: 20 }]
+    },
+    {
+      code: '/*** aaaa\n bbbb ***/'
+    },
+    {
+      code: '\t/**\n\t * aaaa\n\t * bbbb\n\t */'
+    }
+  ],
+  invalid: [
+    {
+      code: '/** aaaa\n * bbbb */',
+      errors: [
+        {
+          messageId: 'open'
+        },
+        {
+          messageId: 'close'
+        }
+      ],
+      output: '/**\n * aaaa\n * bbbb\n */'
+    },
+    {
+      code: '  /**\n   * aaaa\n   * bbbb\n   */',
+      options: [{ firstLine: 'content' }],
+      errors: [
+        {
+          messageId: 'content'
+        }
+      ],
+      output: '  /** aaaa\n   * bbbb\n   */'
+    },
+    {
+      code: '/**\n * aaaa\n */',
+      errors: [
+        {
+          messageId: 'collapse'
+        }
+      ],
+      output: '/** aaaa */'
+    },
+    {
+      code: '  /** aaaa\n  */',
+      errors: [
+        {
+          messageId: 'collapse'
+        }
+      ],
+      output: '  /** aaaa */'
+    },
+    {
+      code: '  /**\n   * aaaa\n   * bbbb\n*/',
+      errors: [
+        {
+          messageId: 'align'
+        }
+      ],
+      output: '  /**\n   * aaaa\n   * bbbb\n   */'
+    }
+  ]
+});
@@ -0,0 +1,107 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// The type expression and name of a JSDoc param, returns, or throws tag are never broken, lines
+// that continue the description of a tag are indented, and descriptions can be aligned across tags.
+
+const tester = new eslint.RuleTester();
+
+tester.run('jsdoc-tags', commentLengthRule, {
+  valid: [
+    {
+      code: '/**\n * @param {string} a - aaaa\n *   bbbb\n */',
+      options: [30],
+    },
+    {
+      code: '/**\n * @param {Map<string, number>} options\n */',
+      options: [20],
+    },
+    {
+      code: '/**\n * @param {string} a     - aaaa\n * @param {number} bbbbb - bbbb\n */',
+      options: [{ maxLength: 40, jsdocAlignDescriptions: true }],
+    }
+  ],
+  invalid: [
+    {
+      code: '/**\n * @param {Map<string, number>} options - aaaa\n */',
+      options: [30],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @param {Map<string, number>} options -\n *   aaaa\n */'
+    },
+    {
+      code: '/**\n * @returns {boolean} aaaa bbbb cccc\n */',
+      options: [30],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @returns {boolean} aaaa\n *   bbbb cccc\n */'
+    },
+    {
+      code: '/**\n * @throws {Error} aaaa\n *     bbbb\n */',
+      options: [{ maxLength: 30, jsdocIndent: 4 }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * @throws {Error} aaaa bbbb\n */'
+    },
+    {
+      code: '/**\n * @param {string} a - aaaa bbbb cccc dddd\n * eeee\n */',
+      options: [32],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @param {string} a - aaaa bbbb\n *   cccc dddd eeee\n */'
+    },
+    {
+      code: '/**\n * @param {string} a - aaaa\n * @param {number} bbbbb - bbbb\n */',
+      options: [{ maxLength: 40, jsdocAlignDescriptions: true }],
+      errors: [
+        {
+          messageId: 'align'
+        }
+      ],
+      output: '/**\n * @param {string} a     - aaaa\n * @param {number} bbbbb - bbbb\n */'
+    },
+    {
+      code: '/**\n * @param {string} a     - aaaa bbbb cccc\n * @param {number} bbbbb - bbbb\n */',
+      options: [{ maxLength: 36, jsdocAlignDescriptions: true }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @param {string} a     - aaaa bbbb\n *                         cccc\n' +
+        ' * @param {number} bbbbb - bbbb\n */'
+    },
+    {
+      code: '/**\n * @param {string} name aaaa bbbb cccc dddd eeee\n */',
+      options: [{ maxLength: 40, jsdocIndent: 40 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @param {string} name aaaa bbbb cccc\n * dddd eeee\n */'
+    },
+    {
+      code: '/**\n * @param {string} name - \t `code span` a word;\n */',
+      options: [{ maxLength: 30, jsdocAlignDescriptions: true }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * @param {string} name -\n *   `code span` a word;\n */'
+    }
+  ]
+});
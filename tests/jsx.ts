@@ -0,0 +1,50 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// A JSX comment, a block comment wrapped in the braces of a JSX expression container, is reflowed
+// with its braces kept in place, and new lines hang under the text of the comment.
+
+const tester = new eslint.RuleTester({
+  parserOptions: {
+    ecmaVersion: 2020,
+    ecmaFeatures: {
+      jsx: true
+    }
+  }
+});
+
+tester.run('jsx', commentLengthRule, {
+  valid: [
+    {
+      code: 'const a = (\n  <div>\n    {/* aaaa bbbb cccc\n        dddd */}\n  </div>\n);',
+      options: [30]
+    },
+    {
+      code: 'const a = {/* aaaa bbbb cccc dddd eeee ffff */};',
+      options: [30]
+    }
+  ],
+  invalid: [
+    {
+      code: 'const a = (\n  <div>\n    {/* aaaa bbbb cccc dddd eeee ffff */}\n  </div>\n);',
+      options: [30],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: 'const a = (\n  <div>\n    {/* aaaa bbbb cccc dddd\n        eeee ffff */}\n' +
+        '  </div>\n);'
+    },
+    {
+      code: 'const a = (\n  <div>\n    {/* aaaa bbbb\n        cccc dddd */}\n  </div>\n);',
+      options: [30],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: 'const a = (\n  <div>\n    {/* aaaa bbbb cccc\n        dddd */}\n  </div>\n);'
+    }
+  ]
+});
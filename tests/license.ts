@@ -0,0 +1,97 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// License comments and the comments of generated files are checked like any other comment by
+// default, and can instead be ignored, or reported without a fix.
+
+const tester = new eslint.RuleTester();
+
+tester.run('license', commentLengthRule, {
+  valid: [
+    {
+      code: '// Copyright 2020 aaaa bbbb cccc\n// dddd\nvar a;',
+      options: [{ maxLength: 20, licenseComments: 'ignore' }],
+    },
+    {
+      code: 'var a;\n/*! aaaa bbbb cccc dddd */',
+      options: [{ maxLength: 20, licenseComments: 'ignore' }],
+    },
+    {
+      code: 'var a;\n/**\n * @license aaaa bbbb cccc dddd\n */',
+      options: [{ maxLength: 20, licenseComments: 'ignore' }],
+    },
+    {
+      code: '// @generated\nvar a;\n// aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, generatedFiles: 'ignore' }],
+    },
+    {
+      code: '// Code generated by a tool. DO NOT EDIT.\nvar a;\n// aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, generatedFiles: 'ignore' }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// Copyright 2020 aaaa bbbb cccc\nvar a;',
+      options: [{ maxLength: 20, licenseComments: 'report' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: null
+    },
+    {
+      code: '// @generated\nvar a;\n// aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, generatedFiles: 'report' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: null
+    },
+    {
+      code: '/*! aaaa bbbb cccc dddd */',
+      options: [{ maxLength: 20, licenseComments: 'fix' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/*! aaaa bbbb cccc\ndddd */'
+    },
+    {
+      code: '/*! aaaa bbbb cccc dddd */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/*! aaaa bbbb cccc\ndddd */'
+    },
+    {
+      code: 'var a;\n// DO NOT EDIT aaaa bbbb cccc',
+      options: [{ maxLength: 20, generatedFiles: 'ignore' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: 'var a;\n// DO NOT EDIT aaaa\n// bbbb cccc'
+    },
+    {
+      code: 'var a;\n// @generated\n// aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, generatedFiles: 'ignore' }],
+      errors: [
+        {
+          messageId: 'merge'
+        },
+        {
+          messageId: 'split'
+        }
+      ],
+      output: 'var a;\n// @generated aaaa\n// bbbb cccc dddd'
+    }
+  ]
+});
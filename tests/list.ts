@@ -0,0 +1,62 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Lines split from a markdown list item in a javadoc comment hang under the text of the item, and
+// such indented lines merge back into the item, including the items of nested lists.
+
+const tester = new eslint.RuleTester();
+
+tester.run('list', commentLengthRule, {
+  valid: [
+    {
+      code: '/**\n * - aaaa bbbb\n * - cccc\n */',
+      options: [20],
+    },
+    {
+      code: '/**\n * - aaaa bbbb\n *   - cccc\n */',
+      options: [20],
+    }
+  ],
+  invalid: [
+    {
+      code: '/**\n * - aaaa bbbb cccccc\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * - aaaa bbbb\n *   cccccc\n */'
+    },
+    {
+      code: '/**\n * 1. aaaa bbbb ccccc\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * 1. aaaa bbbb\n *    ccccc\n */'
+    },
+    {
+      code: '/**\n * - aaaa\n *   - bbbb\n *     cccc\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * - aaaa\n *   - bbbb cccc\n */'
+    },
+    {
+      code: '/**\n * - this is a long line that goes past the limit\n * and continues here\n */',
+      options: [40],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * - this is a long line that goes past\n *   the limit and continues here\n */'
+    }
+  ]
+});
@@ -0,0 +1,69 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// A token that does not fit on a line by itself is handled according to the longTokens option. It
+// can be allowed to overflow, reported without a fix, broken at a natural boundary such as a slash
+// or a camelCase hump, or broken at the maximum line length.
+
+const tester = new eslint.RuleTester();
+
+tester.run('long-tokens', commentLengthRule, {
+  valid: [
+    {
+      code: '// src/commentLengthRule/splitHelpers.ts',
+      options: [{ maxLength: 28, longTokens: 'allow' }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// src/commentLengthRule/splitHelpers.ts',
+      options: [{ maxLength: 28, longTokens: 'report' }],
+      errors: [
+        {
+          messageId: 'overflow'
+        }
+      ],
+      output: null
+    },
+    {
+      code: '// aaaa src/commentLengthRule/splitHelpers.ts',
+      options: [{ maxLength: 28, longTokens: 'allow' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// src/commentLengthRule/splitHelpers.ts'
+    },
+    {
+      code: '// src/commentLengthRule/splitHelpers.ts',
+      options: [{ maxLength: 28, longTokens: 'smart-break' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// src/commentLengthRule/\n// splitHelpers.ts'
+    },
+    {
+      code: '// aaaa splitCommentLineHelpers',
+      options: [{ maxLength: 20, longTokens: 'smart-break' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// splitCommentLine\n// Helpers'
+    },
+    {
+      code: '// src/commentLengthRule/splitHelpers.ts',
+      options: [{ maxLength: 28 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// src/commentLengthRule/spl\n// itHelpers.ts'
+    }
+  ]
+});
@@ -0,0 +1,65 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Markdown headings and thematic breaks in a javadoc comment are never merged with the text around
+// them, lines split from a blockquote keep the blockquote marker, and a line that ends in a hard
+// line break is never merged into.
+
+const tester = new eslint.RuleTester();
+
+tester.run('markdown', commentLengthRule, {
+  valid: [
+    {
+      code: '/**\n * aaaa\n * # bbbb\n * cccc\n */',
+      options: [40],
+    },
+    {
+      code: '/**\n * aaaa\n * ---\n * bbbb\n * ***\n * cccc\n */',
+      options: [40],
+    },
+    {
+      code: '/**\n * aaaa\n * bbbb\n * ====\n * cccc\n */',
+      options: [40],
+    },
+    {
+      code: '/**\n * aaaa\n * > bbbb\n */',
+      options: [40],
+    },
+    {
+      code: '/**\n * aaaa\\\n * bbbb  \n * cccc\n */',
+      options: [40],
+    }
+  ],
+  invalid: [
+    {
+      code: '/**\n * > aaaa bbbb cccc dddd\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * > aaaa bbbb cccc\n * > dddd\n */'
+    },
+    {
+      code: '/**\n * > aaaa\n * > bbbb\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * > aaaa bbbb\n */'
+    },
+    {
+      code: '/**\n * aaaa\\\n * bbbb\n * cccc\n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * aaaa\\\n * bbbb cccc\n */'
+    }
+  ]
+});
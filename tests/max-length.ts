@@ -0,0 +1,116 @@
+import eslint from 'eslint';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Without a maxLength option, the maximum line length comes from the shared comment-reflow
+// settings, then from the max_line_length of the .editorconfig file of the linted file, and
+// otherwise is 80.
+
+const fixtures = fs.mkdtempSync(path.join(os.tmpdir(), 'comment-reflow-'));
+fs.writeFileSync(path.join(fixtures, '.editorconfig'),
+  'root = true\n\n[*]\nmax_line_length = 20\n\n[*.{md,txt}]\nmax_line_length = off\n');
+
+// A section with a glob that cannot be compiled is skipped.
+
+fs.mkdirSync(path.join(fixtures, 'broken'));
+fs.writeFileSync(path.join(fixtures, 'broken', '.editorconfig'),
+  '[{a,{b,c}]\nmax_line_length = 10\n');
+
+const tester = new eslint.RuleTester();
+
+tester.run('max-length', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa bbbb cccc dddd eeee'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'a.md')
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'a.js'),
+      options: [{ maxLength: 40 }]
+    }
+  ],
+  invalid: [
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      settings: { 'comment-reflow': { maxLength: 20 } },
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'a.js'),
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'a.js'),
+      settings: { 'comment-reflow': { maxLength: 10 } },
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// bbbb\n// cccc\n// dddd\n// eeee'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'broken', 'a.js'),
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee'
+    }
+  ]
+});
+
+// An edit to an .editorconfig file applies to the files linted after the edit.
+
+fs.mkdirSync(path.join(fixtures, 'edited'));
+fs.writeFileSync(path.join(fixtures, 'edited', '.editorconfig'), '[*]\nmax_line_length = 100\n');
+
+tester.run('max-length-before-edit', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'edited', 'a.js')
+    }
+  ],
+  invalid: []
+});
+
+fs.writeFileSync(path.join(fixtures, 'edited', '.editorconfig'), '[*]\nmax_line_length = 20\n');
+
+tester.run('max-length-after-edit', commentLengthRule, {
+  valid: [],
+  invalid: [
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      filename: path.join(fixtures, 'edited', 'a.js'),
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee'
+    }
+  ]
+});
+
+fs.rmSync(fixtures, { recursive: true });
@@ -0,0 +1,86 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// The mode option limits the rule to splitting or merging, per kind of comment, and the minimum
+// fill option only reports a merge into a previous line that is short enough.
+
+const tester = new eslint.RuleTester();
+
+tester.run('mode', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa bbbb cccc dddd',
+      options: [{ maxLength: 20, mode: 'merge' }],
+    },
+    {
+      code: '// aaaa\n// bbbb',
+      options: [{ maxLength: 20, mode: 'split' }],
+    },
+    {
+      code: '// aaaa\n// bbbb',
+      options: [{ maxLength: 20, lineMode: 'split' }],
+    },
+    {
+      code: '// aaaaaaaaaaaa\n// bb',
+      options: [{ maxLength: 20, minimumFill: 50 }],
+    }
+  ],
+  invalid: [
+    {
+      code: '/**\n * aaaa\n * bbbb\n */',
+      options: [{ maxLength: 20, mode: 'split', jsdocMode: 'both' }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/**\n * aaaa bbbb\n */'
+    },
+    {
+      code: '// aaaa\n// bb',
+      options: [{ maxLength: 20, minimumFill: 50 }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa bb'
+    },
+    {
+      code: '// aaaa\n// bbbb\n// cccc dddd eeee ffff gggg hhhh',
+      options: [{ maxLength: 20, mode: 'split' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// bbbb\n// cccc dddd eeee\n// ffff gggg hhhh'
+    },
+    {
+      code: '// aaaa\n// bbbb\n// cccc dddd eeee ffff gggg hhhh',
+      options: [{ maxLength: 20, mode: 'merge' }],
+      errors: [
+        {
+          messageId: 'merge'
+        },
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee ffff gggg hhhh'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee\n// ffff\n// gggg hhhh\n// iiii',
+      options: [{ maxLength: 40, minimumFill: 50 }],
+      errors: [
+        {
+          messageId: 'merge'
+        },
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa bbbb cccc dddd eeee\n// ffff gggg hhhh iiii'
+    }
+  ]
+});
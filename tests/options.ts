@@ -0,0 +1,80 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+const tester = new eslint.RuleTester();
+
+tester.run('options-object', commentLengthRule, {
+  valid: [
+    {
+      code: '// 01234567890123456789',
+      options: [{ maxLength: 30 }],
+    },
+    {
+      code: '// 01234567890123456789',
+      options: [{ maxLength: 20, lineMaxLength: 30 }],
+    },
+    {
+      code: '// 01234567890123456789',
+      options: [{ maxLength: 20, split: false }],
+    },
+    {
+      code: `
+// aaaaaaaaaaaa
+// bb
+`,
+      options: [{ maxLength: 20, merge: false }],
+    }
+  ],
+  invalid: [
+    {
+      code: '// 01234567890123456789',
+      options: [{ maxLength: 20 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// 01234567890123456\n// 789'
+    },
+    {
+      code: '/** 01234567890123456789 */',
+      options: [{ maxLength: 40, jsdocMaxLength: 20 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/** 0123456789012345\n * 6789 */'
+    },
+    {
+      code: '// aaaa\n// bbbb cccc dddd eeee ffff gggg',
+      options: [{ maxLength: 20, split: false }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee ffff gggg'
+    },
+    {
+      code: '// aaaa\n// bbbb cccc dddd eeee ffff gggg',
+      options: [{ maxLength: 20, merge: false }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa\n// bbbb cccc dddd\n// eeee ffff gggg'
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee\n// ffff',
+      options: [{ maxLength: 20, merge: false }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee\n// ffff'
+    }
+  ]
+});
@@ -0,0 +1,96 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Every offending line of a paragraph is reported, and a single fix rewraps the whole paragraph at
+// once, so the comment is fixed in one pass.
+
+const tester = new eslint.RuleTester();
+
+tester.run('paragraph', commentLengthRule, {
+  valid: [
+    {
+      code: `
+/**
+ * aaaa bbbb cccc dddd
+ * eeee ffff
+ *
+ * gggg
+ */`,
+      options: [24],
+    },
+    {
+      code: '/**\n * {@link Foo | bar}\n * foo-bar ccc\n */',
+      options: [24]
+    },
+    {
+      code: '/**\n * @param {string} name -\n *   `code span`\n */',
+      options: [24]
+    }
+  ],
+  invalid: [
+    {
+      code: `
+/**
+ * aaaa bbbb cccc dddd eeee ffff gggg
+ * hhhh
+ * iiii
+ *
+ * jjjj
+ * kkkk
+ */`,
+      options: [24],
+      errors: [
+        {
+          messageId: 'split',
+          line: 3
+        },
+        {
+          messageId: 'merge',
+          line: 5
+        },
+        {
+          messageId: 'merge',
+          line: 8
+        }
+      ],
+      output: `
+/**
+ * aaaa bbbb cccc dddd
+ * eeee ffff gggg hhhh
+ * iiii
+ *
+ * jjjj kkkk
+ */`
+    },
+    {
+      code: `
+// aaaa bbbb cccc dddd eeee ffff gggg hhhh iiii
+// jjjj
+`,
+      options: [20],
+      errors: [
+        {
+          messageId: 'split',
+          line: 2
+        }
+      ],
+      output: `
+// aaaa bbbb cccc
+// dddd eeee ffff
+// gggg hhhh iiii
+// jjjj
+`
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee\n// ffff\nx();\n/* block */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split',
+          line: 1
+        }
+      ],
+      output: '// aaaa bbbb cccc\n// dddd eeee ffff\nx();\n/* block */'
+    }
+  ]
+});
@@ -0,0 +1,88 @@
+import assert from 'assert';
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Pragmas in comments turn off the rule for a region or a single comment, or change the maximum
+// line length, and the ignorePatterns option exempts comments that match a pattern.
+
+const tester = new eslint.RuleTester();
+
+tester.run('pragma', commentLengthRule, {
+  valid: [
+    {
+      code: '// comment-reflow-disable\n\n// aaaa bbbb cccc dddd\n\n// comment-reflow-enable',
+      options: [20],
+    },
+    {
+      code: '/**\n * comment-reflow-ignore\n * aaaa bbbb cccc dddd\n */',
+      options: [20],
+    },
+    {
+      code: '// comment-reflow-ignore\n\n/**\n * aaaa bbbb cccc dddd\n */',
+      options: [20],
+    },
+    {
+      code: '// comment-reflow max-length=30\n// aaaa bbbb cccc dddd',
+      options: [20],
+    },
+    {
+      code: '// aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, ignorePatterns: ['aaaa'] }],
+    },
+    {
+      code: '/* aaaa bbbb cccc dddd eeee */',
+      options: [{ maxLength: 20, ignorePatterns: ['/c{4}/'] }],
+    },
+    {
+      code: '/* comment-reflow max-length=60\n   aaaa bbbb cccc dddd eeee */',
+      options: [80],
+    }
+  ],
+  invalid: [
+    {
+      code: '// comment-reflow-disable\n// aaaa bbbb cccc dddd\n// comment-reflow-enable\n\n' +
+        '// aaaa bbbb cccc dddd',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split',
+          line: 5
+        }
+      ],
+      output: '// comment-reflow-disable\n// aaaa bbbb cccc dddd\n// comment-reflow-enable\n\n' +
+        '// aaaa bbbb cccc\n// dddd'
+    },
+    {
+      code: '// comment-reflow max-length=15\n\n// aaaa bbbb cccc',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// comment-reflow max-length=15\n\n// aaaa bbbb\n// cccc'
+    },
+    {
+      code: '/* comment-reflow max-length=30\n   aaaa bbbb cccc dddd eeee ffff gggg */',
+      options: [80],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/* comment-reflow max-length=30\n   aaaa bbbb cccc dddd eeee\n   ffff gggg */'
+    }
+  ]
+});
+
+// A regular expression literal that does not compile is a configuration error.
+
+assert.throws(() => tester.run('ignore-patterns', commentLengthRule, {
+  valid: [
+    {
+      code: '// aaaa',
+      options: [{ ignorePatterns: ['/(/'] }]
+    }
+  ],
+  invalid: []
+}), /The ignorePatterns pattern "\/\(\/" is not a valid regular expression/);
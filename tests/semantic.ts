@@ -0,0 +1,72 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// With semantic line breaks, each sentence starts on a new line, lines are never merged across the
+// end of a sentence, and a sentence that is too long is broken after a semicolon or colon first.
+
+const tester = new eslint.RuleTester();
+
+tester.run('semantic', commentLengthRule, {
+  valid: [
+    {
+      code: '// Aaaa.\n// Bbbb cccc.',
+      options: [{ maxLength: 40, semanticLineBreaks: true }],
+    },
+    {
+      code: '// Aaaa e.g. bbbb, etc. cccc.',
+      options: [{ maxLength: 40, semanticLineBreaks: true }],
+    },
+    {
+      code: '// Aaaa bbbb. Cccc dddd.',
+      options: [40],
+    }
+  ],
+  invalid: [
+    {
+      code: '// Aaaa bbbb. Cccc dddd, e.g. eeee. Ffff',
+      options: [{ maxLength: 40, semanticLineBreaks: true }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// Aaaa bbbb.\n// Cccc dddd, e.g. eeee.\n// Ffff'
+    },
+    {
+      code: '// Aaaa bbbb\n// cccc. Dddd\n// eeee.',
+      options: [{ maxLength: 40, semanticLineBreaks: true }],
+      errors: [
+        {
+          messageId: 'merge'
+        },
+        {
+          messageId: 'split'
+        },
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '// Aaaa bbbb cccc.\n// Dddd eeee.'
+    },
+    {
+      code: '/**\n * Aaaa bbbb cccc dddd; eeee ffff gggg hhhh iiii jjjj.\n */',
+      options: [{ maxLength: 40, semanticLineBreaks: true }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/**\n * Aaaa bbbb cccc dddd;\n * eeee ffff gggg hhhh iiii jjjj.\n */'
+    },
+    {
+      code: '// Aaaa. Vs. bbbb.',
+      options: [{ maxLength: 40, semanticLineBreaks: true, abbreviations: [] }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// Aaaa.\n// Vs.\n// bbbb.'
+    }
+  ]
+});
@@ -0,0 +1,56 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// The rows of a markdown table are never split or merged. An overlong row is reported without a
+// fix, and the columns of a table can optionally be aligned.
+
+const tester = new eslint.RuleTester();
+
+tester.run('table', commentLengthRule, {
+  valid: [
+    {
+      code: '/**\n * | a | b |\n * | c | d |\n */',
+      options: [40],
+    },
+    {
+      code: '/**\n * | a   | b   |\n * | --- | --: |\n * | c   | d   |\n */',
+      options: [{ maxLength: 40, alignTables: true }],
+    },
+    {
+      code: '// aaaa\n// | a | b |\n// | c | d |',
+      options: [40],
+    }
+  ],
+  invalid: [
+    {
+      code: '/**\n * | aaaa | bbbb | cccc |  \n */',
+      options: [20],
+      errors: [
+        {
+          messageId: 'overflow'
+        }
+      ],
+      output: null
+    },
+    {
+      code: '/**\n * |---|:-:|\n * | aaaa | b |\n */',
+      options: [{ maxLength: 40, alignTables: true }],
+      errors: [
+        {
+          messageId: 'table'
+        }
+      ],
+      output: '/**\n * | ---- | :-: |\n * | aaaa | b   |\n */'
+    },
+    {
+      code: '// aaaa\n// | a | b |\n// | --- | --- |\n// | cccc | d |\nx();',
+      options: [{ maxLength: 40, alignTables: true }],
+      errors: [
+        {
+          messageId: 'table'
+        }
+      ],
+      output: '// aaaa\n// | a    | b   |\n// | ---- | --- |\n// | cccc | d   |\nx();'
+    }
+  ]
+});
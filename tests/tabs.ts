@@ -0,0 +1,52 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Tabs advance to the next tab stop, so a tab indented comment is wider than its character count.
+// Continuation lines keep the original tab characters.
+
+const tester = new eslint.RuleTester();
+
+tester.run('tabs', commentLengthRule, {
+  valid: [
+    {
+      code: '\t// 0123456789012',
+      options: [{ maxLength: 20, tabWidth: 4 }],
+    },
+    {
+      code: '\t\t// aaaaaaaaaa\n\t\t// bb',
+      options: [{ maxLength: 30, tabWidth: 8 }],
+    }
+  ],
+  invalid: [
+    {
+      code: '\t// 0123456789 0123',
+      options: [{ maxLength: 20, tabWidth: 4 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '\t// 0123456789\n\t// 0123'
+    },
+    {
+      code: '\t// aaaa\n\t// bb',
+      options: [{ maxLength: 20, tabWidth: 8 }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '\t// aaaa bb'
+    },
+    {
+      code: '\t// 01234567890123456789',
+      options: [{ maxLength: 20, tabWidth: 8 }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '\t// 012345678\n\t// 901234567\n\t// 89'
+    }
+  ]
+});
@@ -0,0 +1,89 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Comments that follow code on the same line are only checked when the trailingComments option is
+// set. They either wrap onto line comments aligned below them or move above the code.
+
+const tester = new eslint.RuleTester();
+
+tester.run('trailing-comments', commentLengthRule, {
+  valid: [
+    {
+      code: 'foo(); // aaaa bbbb cccc dddd eeee',
+      options: [20],
+    },
+    {
+      code: 'foo(); // aaaa bbbb\n       // cccc dddd',
+      options: [{ maxLength: 20, trailingComments: 'wrap' }],
+    },
+    {
+      code: 'foo(); // aaaa\nbar(); // bbbb',
+      options: [{ maxLength: 20, trailingComments: 'wrap' }],
+    }
+  ],
+  invalid: [
+    {
+      code: 'foo(); // aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, trailingComments: 'wrap' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: 'foo(); // aaaa bbbb\n       // cccc dddd\n       // eeee'
+    },
+    {
+      code: 'foo(); // aaaa\n       // bbbb',
+      options: [{ maxLength: 20, trailingComments: 'wrap' }],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: 'foo(); // aaaa bbbb'
+    },
+    {
+      code: '  foo(); // aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, trailingComments: 'above' }],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '  // aaaa bbbb cccc dddd eeee\n  foo();'
+    },
+    {
+      code: 'const s = `\n  abc`; // aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, trailingComments: 'above' }],
+      parserOptions: { ecmaVersion: 2015 },
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: null
+    },
+    {
+      code: 'const a = <div>\n  abc</div>; // aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, trailingComments: 'above' }],
+      parserOptions: { ecmaVersion: 2015, ecmaFeatures: { jsx: true } },
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: null
+    },
+    {
+      code: 'const a = <div>\n  <b/></div>; // aaaa bbbb cccc dddd eeee',
+      options: [{ maxLength: 20, trailingComments: 'above' }],
+      parserOptions: { ecmaVersion: 2015, ecmaFeatures: { jsx: true } },
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: null
+    }
+  ]
+});
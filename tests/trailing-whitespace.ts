@@ -25,7 +25,7 @@ tester.run('line-trailing-whitespace', commentLengthRule, {
           messageId: 'split'
         }
       ],
-      output: '// 01234567890123456     \n// 7'
+      output: '// 01234567890123456\n// 7'
     }
   ]
 });
@@ -0,0 +1,46 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Triple slash comments are their own kind of line comment. New lines keep the third slash, and a
+// run of triple slash comments never merges with a run of regular line comments.
+
+const tester = new eslint.RuleTester();
+
+tester.run('triple-slash', commentLengthRule, {
+  valid: [
+    {
+      code: '/// aaaa\n// bbbb',
+      options: [20],
+    },
+    {
+      code: '// aaaa\n/// bbbb',
+      options: [20],
+    },
+    {
+      code: '/// <reference path="./aaaa/bbbb/cccc.d.ts" />',
+      options: [20],
+    }
+  ],
+  invalid: [
+    {
+      code: '/// aaaa bbbb cccc dddd',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '/// aaaa bbbb cccc\n/// dddd'
+    },
+    {
+      code: '/// aaaa\n/// bbbb',
+      options: [20],
+      errors: [
+        {
+          messageId: 'merge'
+        }
+      ],
+      output: '/// aaaa bbbb'
+    }
+  ]
+});
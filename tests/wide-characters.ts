@@ -0,0 +1,52 @@
+import eslint from 'eslint';
+import commentLengthRule from '../src/comment-length-rule';
+
+// Wide characters occupy two columns and combining marks occupy none. A hard break never lands in
+// the middle of a surrogate pair or a grapheme cluster.
+
+const tester = new eslint.RuleTester();
+
+tester.run('wide-characters', commentLengthRule, {
+  valid: [
+    {
+      code: '// ' + 'e\u0301'.repeat(17),
+      options: [20],
+    },
+    {
+      code: '// ' + 'あ'.repeat(8) + ' ' + 'い',
+      options: [22],
+    }
+  ],
+  invalid: [
+    {
+      code: '// ' + 'あ'.repeat(9),
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// ' + 'あ'.repeat(8) + '\n// あ'
+    },
+    {
+      code: '// ' + '\u{1F600}'.repeat(9),
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// ' + '\u{1F600}'.repeat(8) + '\n// \u{1F600}'
+    },
+    {
+      code: '// ' + 'あ'.repeat(8) + ' ' + 'い',
+      options: [20],
+      errors: [
+        {
+          messageId: 'split'
+        }
+      ],
+      output: '// ' + 'あ'.repeat(8) + '\n// い'
+    }
+  ]
+});